@@ -1,10 +1,45 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { CropEditor } from './components/CropEditor';
+import { CropTargetSwitcher } from './components/CropTargetSwitcher';
+import { BatchAlignmentPanel } from './components/BatchAlignmentPanel';
+import { SessionList } from './components/SessionList';
+import { ExportProfilePicker } from './components/ExportProfilePicker';
 import { Button } from './components/Button';
-import { CropState, GeneratedFile, BatchResult, ExportOptions } from './types';
-import { processExports, generateZip } from './services/pdfService';
-import { ArrowLeft, Download, FileText, Image as ImageIcon, Printer, Pencil, Layers, Archive, Settings2, CheckSquare, Square, ChevronLeft, ChevronRight, Check, Copy } from 'lucide-react';
+import { PaperFormatPicker } from './components/PaperFormatPicker';
+import { ExportProgressPanel, STAGE_LABELS } from './components/ExportProgressPanel';
+import { EncoderSettingsPicker } from './components/EncoderSettingsPicker';
+import { ResponsiveSetPicker } from './components/ResponsiveSetPicker';
+import { WebPresetPicker } from './components/WebPresetPicker';
+import { CropState, FileCrops, PerspectiveQuad, Dimensions, GeneratedFile, BatchResult, ExportOptions, EncoderSettings, ResponsiveSetOptions, ExportProgress, ExportStage, PaperFormat, WebPreset, Orientation, PAPER_FORMATS, DEFAULT_PAPER_FORMATS, DEFAULT_WEB_PRESETS } from './types';
+import { generateZip, isAbortError } from './services/pdfService';
+import { createExportPool } from './services/exportPool';
+import { CMYK_PROFILES } from './services/colorManagement';
+import { checkPrintResolution, MIN_EFFECTIVE_DPI } from './services/preflight';
+import { getAllWebPresets, createCustomPreset, loadCustomPresets, saveCustomPresets } from './services/webPresets';
+import { getAllPaperFormats, createCustomFormat, loadCustomFormats, saveCustomFormats, formatPaperDimensions, orientFormat } from './services/paperFormats';
+import { getCropTargets, printTarget, resolvePrintOrientation, createFileCrops, normalizeFileCrops, getTargetCrop, setTargetCrop, setCropsLinked, alignFileCrops } from './services/cropTargets';
+import { CropAlignment } from './services/cropGeometry';
+import { getCropSourceSize } from './services/perspective';
+import { GuideSettings, loadGuideSettings, saveGuideSettings } from './services/guides';
+import { EditHistory, EditSnapshot, createEditHistory, recordEdit, undoEdit, redoEdit } from './services/history';
+import { exportProject, importProject, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { ExportProfile, applyNamingTemplate, createExportProfile, loadExportProfiles, saveExportProfiles, loadDefaultProfileId, saveDefaultProfileId, serializeExportProfiles, parseExportProfiles, mergeExportProfiles } from './services/exportProfiles';
+import { DEFAULT_OPTIONS, readExportOptions } from './services/exportOptions';
+import { SessionState, SessionSummary, canUseSessionStore, createSession, saveSessionState, listSessions, loadSession, deleteSession } from './services/sessionStore';
+import { ArrowLeft, Download, FileText, Image as ImageIcon, Printer, Pencil, Layers, Archive, Settings2, CheckSquare, Square, ChevronLeft, ChevronRight, Check, Copy, RotateCcw, TriangleAlert, Undo2, Redo2, Save, FolderOpen } from 'lucide-react';
+
+// "poster.final.jpg" -> "poster.final"
+const getBaseName = (file: File) => file.name.substring(0, file.name.lastIndexOf('.')) || file.name;
+
+// Quiet period before the session is autosaved
+const SESSION_SAVE_DELAY_MS = 800;
+
+const hasAnyOutputSelected = (options: ExportOptions) =>
+  (options.includePdf && options.paperFormats.length > 0) ||
+  (options.includeWebpFixed && options.webPresets.length > 0) ||
+  options.includeResize ||
+  (options.includeResponsive && options.responsive.formats.length > 0);
 
 function App() {
   const [files, setFiles] = useState<File[]>([]);
@@ -13,30 +48,92 @@ function App() {
   
   // State for batch management
   const [currentFileIndex, setCurrentFileIndex] = useState(0);
-  const [crops, setCrops] = useState<CropState[]>([]);
+  const [crops, setCrops] = useState<FileCrops[]>([]);
+  // Output target shown in the crop editor
+  const [activeTargetKey, setActiveTargetKey] = useState<string | null>(null);
+  // Rule used by "Align All"
+  const [alignment, setAlignment] = useState<CropAlignment>({ mode: 'fill', anchor: 'center', paddingPercent: 0 });
   const [currentImgDims, setCurrentImgDims] = useState<{width: number, height: number} | null>(null);
-
-  const [editorLayoutWidth, setEditorLayoutWidth] = useState<number>(0);
+  // Natural size of every file in the batch, for the resolution preflight
+  const [imageDims, setImageDims] = useState<(Dimensions | null)[]>([]);
   
   // Output Configuration State - Now an Array for per-file settings
   const [fileSettings, setFileSettings] = useState<ExportOptions[]>([]);
 
+  // User-defined paper sizes, shared across all files and sessions
+  const [customFormats, setCustomFormats] = useState<PaperFormat[]>(loadCustomFormats);
+  // User-defined web crop presets, shared across sessions
+  const [customPresets, setCustomPresets] = useState<WebPreset[]>(loadCustomPresets);
+  // Saved delivery setups; the default one replaces DEFAULT_OPTIONS for new uploads
+  const [exportProfiles, setExportProfiles] = useState<ExportProfile[]>(loadExportProfiles);
+  const [defaultProfileId, setDefaultProfileId] = useState<string | null>(loadDefaultProfileId);
+  // Editor overlays and snapping, shared across sessions
+  const [guideSettings, setGuideSettings] = useState<GuideSettings>(loadGuideSettings);
+
   const [fileNames, setFileNames] = useState<string[]>([]);
   const [batchNameInput, setBatchNameInput] = useState("");
   
   const [isProcessing, setIsProcessing] = useState(false);
+  // Per-file progress of the running batch; null for files without outputs
+  const [progress, setProgress] = useState<(ExportProgress | null)[]>([]);
+  const [isCancelling, setIsCancelling] = useState(false);
+  // Set when a batch was cancelled after some files finished
+  const [cancelledSummary, setCancelledSummary] = useState<string | null>(null);
+  const [zipProgress, setZipProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [results, setResults] = useState<BatchResult[] | null>(null);
+  // Undo/redo of crops, names and export settings
+  const [history, setHistory] = useState<EditHistory>(createEditHistory);
+
+  // Autosaved session of the current batch, and the ones that can be resumed
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SessionSummary[]>([]);
+  const [resumingSessionId, setResumingSessionId] = useState<string | null>(null);
+  // Shown while edits are not being kept in the browser, e.g. when storage is full
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
+  // Project file import/export
+  const [isOpeningProject, setIsOpeningProject] = useState(false);
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // Bumped whenever another batch is opened or the batch is closed, so late session saves are ignored
+  const batchTokenRef = useRef(0);
 
   // Helper to get current options safely
-  const currentOptions = fileSettings[currentFileIndex] || {
-      includePdf: false,
-      includeWebpFixed: false,
-      includeResize: true,
-      resizeScale: 50
+  const currentOptions = fileSettings[currentFileIndex] || DEFAULT_OPTIONS;
+
+  const currentCrops = crops[currentFileIndex];
+
+  // The editor previews one output target at a time; print formats in the resolved orientation
+  // (of the flattened artwork when perspective correction is on, as rotated in the crop)
+  const cropSourceDims = currentImgDims ? getCropSourceSize(currentImgDims, currentCrops?.perspective || null) : null;
+  const previewOrientation = cropSourceDims && currentCrops
+    ? resolvePrintOrientation(currentOptions.orientation, cropSourceDims, currentCrops)
+    : 'portrait';
+  const cropTargets = useMemo(() => {
+    const targets = getCropTargets(currentOptions, previewOrientation);
+    return targets.length > 0 ? targets : [printTarget(currentOptions.paperFormats[0] || PAPER_FORMATS.A1, previewOrientation)];
+  }, [currentOptions, previewOrientation]);
+  const activeTarget = cropTargets.find(target => target.key === activeTargetKey) || cropTargets[0];
+
+  const proofProfile = CMYK_PROFILES[currentOptions.cmykProfile] || CMYK_PROFILES.COATED;
+
+  // The DPI readout covers the print targets that use the crop being edited
+  const printFormats = useMemo(() => {
+    if (!currentOptions.includePdf) return [];
+    if (!currentCrops?.linked) return activeTarget.format ? [activeTarget.format] : [];
+    return currentOptions.paperFormats.map(f => orientFormat(f, previewOrientation));
+  }, [currentOptions.includePdf, currentOptions.paperFormats, previewOrientation, currentCrops?.linked, activeTarget]);
+
+  // Print targets of a file that fall below the minimum effective resolution
+  const getLowResolutionTargets = (index: number) => {
+    const dims = imageDims[index];
+    if (!dims || !crops[index] || !fileSettings[index]) return [];
+    return checkPrintResolution(dims, crops[index], fileSettings[index]).filter(check => !check.ok);
   };
 
   // Helper to determine if we are in "Resize Only" mode for the current image
-  const onlyResize = currentOptions.includeResize && !currentOptions.includePdf && !currentOptions.includeWebpFixed;
+  // (the responsive set also ignores the crop)
+  const onlyResize = (currentOptions.includeResize || currentOptions.includeResponsive) && !currentOptions.includePdf && !currentOptions.includeWebpFixed;
 
   // Helper to load image for preview and get dimensions
   const loadMainPreview = (file: File) => {
@@ -55,39 +152,169 @@ function App() {
     reader.readAsDataURL(file);
   };
 
-  const handleImageSelect = (selectedFiles: File[]) => {
+  // Opens a batch, either fresh from the uploader or with the state of a saved session
+  const openBatch = (selectedFiles: File[], restored?: SessionState) => {
+    batchTokenRef.current++;
     setFiles(selectedFiles);
     
+    // New uploads start from the default profile, if one is set
+    const profile = restored ? null : exportProfiles.find(p => p.id === defaultProfileId) || null;
+
     // Initialize file names
-    const initialNames = selectedFiles.map(f => 
-      f.name.substring(0, f.name.lastIndexOf('.')) || f.name
+    const initialNames = restored?.fileNames || selectedFiles.map((f, idx) =>
+      profile ? applyNamingTemplate(profile.namingTemplate, getBaseName(f), idx) : getBaseName(f)
     );
     setFileNames(initialNames);
 
     // Initialize crops for all files
-    const initialCrops = selectedFiles.map(() => ({ x: 0, y: 0, scale: 1 }));
+    const initialCrops = restored ? restored.crops.map(saved => normalizeFileCrops(saved)) : selectedFiles.map(createFileCrops);
     setCrops(initialCrops);
 
-    // Initialize settings for all files (Default: Resize 50% only)
-    const initialSettings = selectedFiles.map(() => ({
-        includePdf: false,
-        includeWebpFixed: false,
-        includeResize: true,
-        resizeScale: 50
-    }));
+    // Initialize settings for all files (Default: Resize 50% only, unless a default profile is set)
+    // Saved settings are checked and completed with the defaults in case options were added since
+    const profileOptions = profile ? getProfileOptions(profile) : DEFAULT_OPTIONS;
+    const initialSettings = restored
+      ? restored.fileSettings.map(readExportOptions)
+      : selectedFiles.map(() => ({ ...profileOptions }));
+    importCustomSizes(initialSettings);
     setFileSettings(initialSettings);
+    setHistory(createEditHistory());
+    setActiveTargetKey(null);
 
     // Generate thumbnails
     const newThumbnails = selectedFiles.map(file => URL.createObjectURL(file));
     setThumbnails(newThumbnails);
 
-    // Set first file active
-    setCurrentFileIndex(0);
-    loadMainPreview(selectedFiles[0]);
+    // Read natural sizes in the background for the resolution preflight
+    setImageDims(selectedFiles.map(() => null));
+    newThumbnails.forEach((url, idx) => {
+      const img = new Image();
+      img.onload = () => {
+        setImageDims(prev => {
+          const next = [...prev];
+          next[idx] = { width: img.naturalWidth, height: img.naturalHeight };
+          return next;
+        });
+      };
+      img.src = url;
+    });
+
+    // Set first (or last edited) file active
+    const startIndex = restored ? Math.min(Math.max(0, restored.currentFileIndex), selectedFiles.length - 1) : 0;
+    setCurrentFileIndex(startIndex);
+    loadMainPreview(selectedFiles[startIndex]);
     
     setResults(null);
+    return { fileNames: initialNames, crops: initialCrops, fileSettings: initialSettings, currentFileIndex: startIndex };
+  };
+
+  const refreshSessions = () => {
+    if (!canUseSessionStore()) return;
+    listSessions().then(setSavedSessions).catch(error => console.warn('Could not list saved sessions', error));
+  };
+
+  useEffect(refreshSessions, []);
+
+  // Saves a newly opened batch as a session and starts autosaving it
+  const startSession = (selectedFiles: File[], state: SessionState) => {
+    setSessionId(null);
+    setAutosaveError(null);
+    if (!canUseSessionStore()) return;
+    const token = batchTokenRef.current;
+    createSession(selectedFiles, state)
+      .then(id => {
+        if (token === batchTokenRef.current) setSessionId(id);
+        refreshSessions();
+      })
+      .catch(error => {
+        console.warn('Could not save the session', error);
+        if (token === batchTokenRef.current) {
+          setAutosaveError('This batch could not be saved in the browser, so it cannot be resumed later. Use Save Project to keep your edits.');
+        }
+      });
+  };
+
+  const handleImageSelect = (selectedFiles: File[]) => {
+    startSession(selectedFiles, openBatch(selectedFiles));
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const projectFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!projectFile) return;
+    setIsOpeningProject(true);
+    try {
+      const project = await importProject(projectFile);
+      startSession(project.files, openBatch(project.files, project.state));
+    } catch (error) {
+      console.error(error);
+      alert(error instanceof Error ? error.message : 'The project could not be opened.');
+    } finally {
+      setIsOpeningProject(false);
+    }
+  };
+
+  // Downloads the source images and the edit state as one file that can be opened elsewhere
+  const handleSaveProject = async () => {
+    setIsSavingProject(true);
+    try {
+      const blob = await exportProject(files, { crops, fileNames, fileSettings, currentFileIndex });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${(isBatch && batchNameInput.trim()) || fileNames[0] || 'project'}${PROJECT_FILE_EXTENSION}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(error);
+      alert('The project could not be saved.');
+    } finally {
+      setIsSavingProject(false);
+    }
   };
 
+  const resumeSession = async (id: string) => {
+    setResumingSessionId(id);
+    try {
+      const session = await loadSession(id);
+      if (!session) {
+        alert('This session could not be restored.');
+        await deleteSession(id);
+        refreshSessions();
+        return;
+      }
+      openBatch(session.files, session.state);
+      setSessionId(id);
+    } catch (error) {
+      console.error(error);
+      alert('This session could not be restored.');
+    } finally {
+      setResumingSessionId(null);
+    }
+  };
+
+  const removeSession = (id: string) => {
+    deleteSession(id)
+      .catch(error => console.warn('Could not delete the session', error))
+      .finally(refreshSessions);
+  };
+
+  // Autosave, debounced so drags and typing don't write on every change
+  useEffect(() => {
+    if (!sessionId) return;
+    const timer = window.setTimeout(() => {
+      saveSessionState(sessionId, { crops, fileNames, fileSettings, currentFileIndex })
+        .then(() => setAutosaveError(null))
+        .catch(error => {
+          console.warn('Could not autosave the session', error);
+          setAutosaveError('Recent edits could not be autosaved. Use Save Project to keep them.');
+        });
+    }, SESSION_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [sessionId, crops, fileNames, fileSettings, currentFileIndex]);
+
   const switchFile = (index: number) => {
       if (index >= 0 && index < files.length) {
           setCurrentFileIndex(index);
@@ -98,16 +325,101 @@ function App() {
   const handleNextImage = () => switchFile(currentFileIndex + 1);
   const handlePrevImage = () => switchFile(currentFileIndex - 1);
 
-  // Update crop for the CURRENT file index
+  const takeSnapshot = (): EditSnapshot => ({ crops, fileNames, fileSettings, customFormats, customPresets });
+
+  // Call before every undoable change; `group` merges rapid edits of the same thing into one step
+  const checkpoint = (group: string | null = null) => {
+    const before = takeSnapshot();
+    setHistory(prev => recordEdit(prev, before, group));
+  };
+
+  const restoreSnapshot = (snapshot: EditSnapshot) => {
+    setCrops(snapshot.crops);
+    setFileNames(snapshot.fileNames);
+    setFileSettings(snapshot.fileSettings);
+    if (snapshot.customFormats !== customFormats) {
+      setCustomFormats(snapshot.customFormats);
+      saveCustomFormats(snapshot.customFormats);
+    }
+    if (snapshot.customPresets !== customPresets) {
+      setCustomPresets(snapshot.customPresets);
+      saveCustomPresets(snapshot.customPresets);
+    }
+  };
+
+  const handleUndo = () => {
+    const step = undoEdit(history, takeSnapshot());
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.snapshot);
+  };
+
+  const handleRedo = () => {
+    const step = redoEdit(history, takeSnapshot());
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.snapshot);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutRef.current = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || files.length === 0 || results || isProcessing) return;
+    const target = e.target as HTMLElement;
+    const isTextField = target.isContentEditable || target.tagName === 'TEXTAREA' ||
+      (target.tagName === 'INPUT' && !['range', 'checkbox', 'radio'].includes((target as HTMLInputElement).type));
+    if (isTextField) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      handleUndo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      handleRedo();
+    }
+  };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Update crop for the CURRENT file index and the target shown in the editor
   const handleCropChange = (newCrop: CropState) => {
+    checkpoint(`crop:${currentFileIndex}:${activeTarget.key}`);
+    setCrops(prev => {
+      const newCrops = [...prev];
+      newCrops[currentFileIndex] = setTargetCrop(prev[currentFileIndex], activeTarget.key, newCrop);
+      return newCrops;
+    });
+  };
+
+  const handleGuidesChange = (settings: GuideSettings) => {
+    setGuideSettings(settings);
+    saveGuideSettings(settings);
+  };
+
+  // The artwork corners belong to the file, so they apply to every target
+  const handlePerspectiveChange = (quad: PerspectiveQuad | null) => {
+    checkpoint(`perspective:${currentFileIndex}`);
+    setCrops(prev => {
+      const newCrops = [...prev];
+      newCrops[currentFileIndex] = { ...prev[currentFileIndex], perspective: quad };
+      return newCrops;
+    });
+  };
+
+  const toggleCropsLinked = () => {
+    checkpoint();
     setCrops(prev => {
       const newCrops = [...prev];
-      newCrops[currentFileIndex] = newCrop;
+      newCrops[currentFileIndex] = setCropsLinked(prev[currentFileIndex], !prev[currentFileIndex].linked, activeTarget.key);
       return newCrops;
     });
   };
 
   const handleNameChange = (index: number, newName: string) => {
+    checkpoint(`name:${index}`);
     const updatedNames = [...fileNames];
     updatedNames[index] = newName;
     setFileNames(updatedNames);
@@ -115,25 +427,116 @@ function App() {
   
   const applyBatchRename = () => {
       if (!batchNameInput.trim()) return;
+      checkpoint();
       const newNames = files.map((_, idx) => `${batchNameInput.trim()}_${idx + 1}`);
       setFileNames(newNames);
   };
 
-  const applyCropToAll = () => {
-      const current = crops[currentFileIndex];
-      setCrops(files.map(() => ({ ...current })));
-      alert("Current position and scale applied to all images.");
+  // Lays out every file with the alignment rule, using each image's own size and targets
+  const applyAlignmentToAll = () => {
+      checkpoint();
+      setCrops(prev => prev.map((fileCrops, idx) => {
+          const dims = imageDims[idx];
+          const settings = fileSettings[idx];
+          if (!dims || !settings) return fileCrops;
+          const source = getCropSourceSize(dims, fileCrops.perspective);
+          const orientation = resolvePrintOrientation(settings.orientation, source, fileCrops);
+          return alignFileCrops(fileCrops, alignment, source, getCropTargets(settings, orientation), activeTarget.key);
+      }));
+  };
+
+  // Custom sizes used by settings from elsewhere (a shared profile or project file) are added
+  // to the local lists so they show up as selected
+  const importCustomSizes = (settings: ExportOptions[]) => {
+    const missingFormats: PaperFormat[] = [];
+    const missingPresets: WebPreset[] = [];
+    settings.forEach(options => {
+      options.paperFormats.forEach(f => {
+        if (f.custom && ![...customFormats, ...missingFormats].some(c => c.id === f.id)) missingFormats.push(f);
+      });
+      options.webPresets.forEach(p => {
+        if (p.custom && ![...customPresets, ...missingPresets].some(c => c.id === p.id)) missingPresets.push(p);
+      });
+    });
+    if (missingFormats.length > 0) {
+      const updated = [...customFormats, ...missingFormats];
+      setCustomFormats(updated);
+      saveCustomFormats(updated);
+    }
+    if (missingPresets.length > 0) {
+      const updated = [...customPresets, ...missingPresets];
+      setCustomPresets(updated);
+      saveCustomPresets(updated);
+    }
+  };
+
+  // Options of a profile, completed with defaults in case options were added since it was saved
+  const getProfileOptions = (profile: ExportProfile): ExportOptions => ({ ...DEFAULT_OPTIONS, ...profile.options });
+
+  // Profiles describe a whole delivery, so they apply to every file in the batch
+  const applyExportProfile = (profile: ExportProfile) => {
+    const options = getProfileOptions(profile);
+    importCustomSizes([options]);
+    checkpoint();
+    setFileSettings(files.map(() => ({ ...options })));
+    if (profile.namingTemplate) {
+      setFileNames(files.map((file, idx) => applyNamingTemplate(profile.namingTemplate, getBaseName(file), idx)));
+    }
+  };
+
+  const saveExportProfile = (name: string, namingTemplate: string) => {
+    const profile = createExportProfile(name, currentOptions, namingTemplate);
+    const updated = [...exportProfiles, profile];
+    setExportProfiles(updated);
+    saveExportProfiles(updated);
+    return profile.id;
+  };
+
+  const updateDefaultProfile = (id: string | null) => {
+    setDefaultProfileId(id);
+    saveDefaultProfileId(id);
+  };
+
+  const deleteExportProfile = (profile: ExportProfile) => {
+    const updated = exportProfiles.filter(p => p.id !== profile.id);
+    setExportProfiles(updated);
+    saveExportProfiles(updated);
+    if (profile.id === defaultProfileId) updateDefaultProfile(null);
+  };
+
+  const importExportProfiles = async (file: File) => {
+    try {
+      const imported = parseExportProfiles(await file.text());
+      const updated = mergeExportProfiles(exportProfiles, imported);
+      setExportProfiles(updated);
+      saveExportProfiles(updated);
+      alert(`Imported ${imported.length} export ${imported.length === 1 ? 'profile' : 'profiles'}.`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'The profiles could not be imported.');
+    }
+  };
+
+  const downloadExportProfiles = () => {
+    const url = URL.createObjectURL(new Blob([serializeExportProfiles(exportProfiles)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'export-profiles.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
   const applySettingsToAll = () => {
       const current = fileSettings[currentFileIndex];
+      checkpoint();
       setFileSettings(files.map(() => ({ ...current })));
       alert("Export settings applied to all images.");
   };
 
   const handleGenerate = async () => {
     // Check if any file has any output selected
-    const hasAnyOutput = fileSettings.some(s => s.includePdf || s.includeWebpFixed || s.includeResize);
+    const hasAnyOutput = fileSettings.some(hasAnyOutputSelected);
 
     if (!previewSrc || files.length === 0) return;
     
@@ -142,74 +545,140 @@ function App() {
         return;
     }
 
+    // Resolution preflight: flag prints below the minimum effective DPI
+    const lowResolution = files
+        .map((file, idx) => ({ name: fileNames[idx] || file.name, checks: getLowResolutionTargets(idx) }))
+        .filter(entry => entry.checks.length > 0);
+
+    if (lowResolution.length > 0) {
+        const summary = lowResolution
+            .map(entry => `• ${entry.name}: ${entry.checks.map(c => `${c.format.label} ${c.dpi} dpi`).join(', ')}`)
+            .join('\n');
+        const proceed = confirm(
+            `These prints are below ${MIN_EFFECTIVE_DPI} dpi and may look blurry:\n\n${summary}\n\nGenerate anyway?`
+        );
+        if (!proceed) return;
+    }
+
+    const outcome = await runBatch(
+        files.map((_, i) => i).filter(i => hasAnyOutputSelected(fileSettings[i]))
+    );
+    // Nothing finished before cancelling: stay in the editor
+    if (!outcome || (outcome.cancelled && outcome.batchResults.length === 0)) return;
+
+    setCancelledSummary(outcome.cancelled ? `Cancelled. ${outcome.batchResults.length} of ${outcome.requested} files finished.` : null);
+    setResults(outcome.batchResults);
+  };
+
+  /**
+   * Runs the given files through the export pool. Every file succeeds or fails on its own;
+   * failures are recorded on its BatchResult instead of aborting the batch.
+   * Cancelled files are left out of the returned results.
+   */
+  const runBatch = async (indices: number[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
-    
-    setTimeout(async () => {
-      try {
-        const batchResults: BatchResult[] = [];
+    setIsCancelling(false);
+    setProgress(files.map((_, i) => indices.includes(i) ? { stage: 'queued', fraction: 0 } : null));
+
+    // Last reported stage per file, recorded on failures
+    const stages = new Map<number, ExportStage>();
+    const updateProgress = (index: number, fileProgress: ExportProgress) => {
+        stages.set(index, fileProgress.stage);
+        setProgress(prev => {
+            const next = [...prev];
+            next[index] = fileProgress;
+            return next;
+        });
+    };
+
+    // Rendering runs in a bounded pool of Web Workers, so the UI stays responsive
+    // and several files are processed in parallel.
+    const pool = createExportPool();
 
-        // Iterate through all files
-        for (let i = 0; i < files.length; i++) {
+    try {
+        const jobs = indices.map(async (i): Promise<BatchResult | null> => {
             const file = files[i];
             const settings = fileSettings[i];
-
-            // Skip if no output selected for this file
-            if (!settings.includePdf && !settings.includeWebpFixed && !settings.includeResize) {
-                continue;
-            }
             
             let baseName = fileNames[i]?.trim();
             if (!baseName) {
                 baseName = file.name.substring(0, file.name.lastIndexOf('.')) || file.name;
             }
 
-            const objectUrl = URL.createObjectURL(file);
-            const img = new Image();
-            
-            await new Promise<void>((resolve, reject) => {
-                img.onload = () => resolve();
-                img.onerror = (e) => reject(e);
-                img.src = objectUrl;
-            });
-
             try {
-                // Use the SPECIFIC crop and settings for this file index
-                const fileCrop = crops[i];
-                
-                // For layout width, we might need a fallback if the user never viewed this specific image
-                // in non-resize mode. However, since logic passes editorLayoutWidth, 
-                // and that is updated by the CropEditor component, we assume reasonable defaults or
-                // that the user has previewed it. 
-                // To be safe, we use the current editorLayoutWidth or a safe fallback (e.g. 500)
-                // if it wasn't captured yet. Ideally, the service handles the ratio purely.
-                const layoutW = editorLayoutWidth || 500; 
-
-                const generatedFiles = await processExports(
-                    img, 
-                    fileCrop, 
-                    layoutW, 
-                    baseName, 
-                    settings, 
-                    file.size
-                );
-                
-                batchResults.push({
+                // Use the SPECIFIC crops and settings for this file index; each output picks its target's crop
+                const generatedFiles = await pool.run({
+                    file,
+                    crops: crops[i],
+                    baseName,
+                    options: settings
+                }, {
+                    signal: controller.signal,
+                    onProgress: fileProgress => updateProgress(i, fileProgress)
+                });
+                updateProgress(i, { stage: 'done', fraction: 1 });
+
+                return {
                     originalName: baseName,
+                    sourceIndex: i,
                     files: generatedFiles
-                });
-            } finally {
-                URL.revokeObjectURL(objectUrl);
+                };
+            } catch (error) {
+                // Cancelled files are dropped; everything that finished before is kept
+                if (isAbortError(error)) {
+                    updateProgress(i, { stage: 'cancelled', fraction: 0 });
+                    return null;
+                }
+                console.error(`Processing ${file.name} failed`, error);
+                const stage = stages.get(i) || 'queued';
+                updateProgress(i, { stage: 'error', fraction: 1 });
+                return {
+                    originalName: baseName,
+                    sourceIndex: i,
+                    files: [],
+                    error: {
+                        message: error instanceof Error ? error.message : String(error),
+                        stage
+                    }
+                };
             }
-        }
-        
-        setResults(batchResults);
-      } catch (error) {
+        });
+
+        // Keep the batch order regardless of which worker finishes first
+        const batchResults = (await Promise.all(jobs)).filter((r): r is BatchResult => r !== null);
+        return { batchResults, requested: indices.length, cancelled: controller.signal.aborted };
+    } catch (error) {
         console.error("Processing failed", error);
         alert("An error occurred while generating the files.");
-      } finally {
+        return null;
+    } finally {
+        pool.terminate();
+        abortRef.current = null;
         setIsProcessing(false);
-      }
-    }, 100);
+        setIsCancelling(false);
+        setProgress([]);
+    }
+  };
+
+  const retryFailed = async () => {
+    if (!results) return;
+    const failed = results.filter(batch => batch.error).map(batch => batch.sourceIndex);
+    if (failed.length === 0) return;
+
+    const outcome = await runBatch(failed);
+    if (!outcome) return;
+    // Files cancelled during the retry keep their previous failure
+    setResults(prev => prev && prev.map(batch =>
+        outcome.batchResults.find(retried => retried.sourceIndex === batch.sourceIndex) || batch
+    ));
+  };
+
+  const handleCancel = () => {
+    if (!abortRef.current) return;
+    setIsCancelling(true);
+    abortRef.current.abort();
   };
 
   const handleReset = () => {
@@ -220,12 +689,20 @@ function App() {
     setFiles([]);
     setPreviewSrc(null);
     setResults(null);
+    setCancelledSummary(null);
     setCrops([]);
     setFileSettings([]);
     setCurrentFileIndex(0);
-    setEditorLayoutWidth(0);
+    setActiveTargetKey(null);
     setFileNames([]);
+    setHistory(createEditHistory());
+    // The session stays saved and can be resumed from the upload screen
+    batchTokenRef.current++;
+    setSessionId(null);
+    setAutosaveError(null);
+    refreshSessions();
     setCurrentImgDims(null);
+    setImageDims([]);
     setBatchNameInput("");
   };
 
@@ -240,19 +717,33 @@ function App() {
 
   const downloadZip = async () => {
     if (!results) return;
-    const blob = await generateZip(results);
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = results.length > 1 ? "converted_batch.zip" : `${results[0].originalName}_bundle.zip`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+    setZipProgress(0);
+    try {
+        const blob = await generateZip(results, setZipProgress);
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = results.length > 1 ? "converted_batch.zip" : `${results[0].originalName}_bundle.zip`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    } catch (error) {
+        console.error("ZIP generation failed", error);
+        alert("An error occurred while creating the ZIP file.");
+    } finally {
+        setZipProgress(null);
+    }
   };
 
   const isBatch = files.length > 1;
+  const failedCount = results ? results.filter(batch => batch.error).length : 0;
+  const progressItems = progress.flatMap((fileProgress, idx) =>
+    fileProgress ? [{ name: fileNames[idx] || files[idx].name, progress: fileProgress }] : []
+  );
 
-  const toggleOption = (key: keyof ExportOptions) => {
+  const toggleOption = (key: 'includePdf' | 'printerMarks' | 'includeWebpFixed' | 'includeResize' | 'includeResponsive') => {
+      checkpoint();
       setFileSettings(prev => {
           const newSettings = [...prev];
           newSettings[currentFileIndex] = {
@@ -264,6 +755,7 @@ function App() {
   };
 
   const updateResizeScale = (val: number) => {
+    checkpoint(`resizeScale:${currentFileIndex}`);
     setFileSettings(prev => {
         const newSettings = [...prev];
         newSettings[currentFileIndex] = {
@@ -274,6 +766,119 @@ function App() {
     });
   };
 
+  const updateEncoder = (key: 'webEncoder' | 'resizeEncoder', encoder: EncoderSettings) => {
+    checkpoint(`${key}:${currentFileIndex}`);
+    setFileSettings(prev => {
+        const newSettings = [...prev];
+        newSettings[currentFileIndex] = {
+            ...newSettings[currentFileIndex],
+            [key]: encoder
+        };
+        return newSettings;
+    });
+  };
+
+  const updateResponsive = (responsive: ResponsiveSetOptions) => {
+    checkpoint(`responsive:${currentFileIndex}`);
+    setFileSettings(prev => {
+        const newSettings = [...prev];
+        newSettings[currentFileIndex] = {
+            ...newSettings[currentFileIndex],
+            responsive
+        };
+        return newSettings;
+    });
+  };
+
+  const updateOrientation = (orientation: Orientation) => {
+    checkpoint();
+    setFileSettings(prev => {
+        const newSettings = [...prev];
+        newSettings[currentFileIndex] = {
+            ...newSettings[currentFileIndex],
+            orientation
+        };
+        return newSettings;
+    });
+  };
+
+  const updateColor = (colorMode: ExportOptions['colorMode'], cmykProfile: string) => {
+    checkpoint();
+    setFileSettings(prev => {
+        const newSettings = [...prev];
+        newSettings[currentFileIndex] = {
+            ...newSettings[currentFileIndex],
+            colorMode,
+            cmykProfile
+        };
+        return newSettings;
+    });
+  };
+
+  const togglePaperFormat = (format: PaperFormat) => {
+    checkpoint();
+    setFileSettings(prev => {
+        const newSettings = [...prev];
+        const selected = newSettings[currentFileIndex].paperFormats;
+        newSettings[currentFileIndex] = {
+            ...newSettings[currentFileIndex],
+            paperFormats: selected.some(f => f.id === format.id)
+                ? selected.filter(f => f.id !== format.id)
+                : [...selected, format]
+        };
+        return newSettings;
+    });
+  };
+
+  const addCustomFormat = (label: string, widthCm: number, heightCm: number, bleedMm: number) => {
+    const format = createCustomFormat(label, widthCm, heightCm, bleedMm);
+    const updated = [...customFormats, format];
+    setCustomFormats(updated);
+    saveCustomFormats(updated);
+    togglePaperFormat(format);
+  };
+
+  const removeCustomFormat = (format: PaperFormat) => {
+    checkpoint();
+    const updated = customFormats.filter(f => f.id !== format.id);
+    setCustomFormats(updated);
+    saveCustomFormats(updated);
+    // Drop the removed size from every file that had it selected
+    setFileSettings(prev => prev.map(s => ({ ...s, paperFormats: s.paperFormats.filter(f => f.id !== format.id) })));
+  };
+
+  const toggleWebPreset = (preset: WebPreset) => {
+    checkpoint();
+    setFileSettings(prev => {
+        const newSettings = [...prev];
+        const selected = newSettings[currentFileIndex].webPresets;
+        newSettings[currentFileIndex] = {
+            ...newSettings[currentFileIndex],
+            webPresets: selected.some(p => p.id === preset.id)
+                ? selected.filter(p => p.id !== preset.id)
+                : [...selected, preset]
+        };
+        return newSettings;
+    });
+  };
+
+  const addCustomPreset = (label: string, widthPx: number, heightPx: number) => {
+    const preset = createCustomPreset(label, widthPx, heightPx);
+    const updated = [...customPresets, preset];
+    setCustomPresets(updated);
+    saveCustomPresets(updated);
+    toggleWebPreset(preset);
+  };
+
+  const removeCustomPreset = (preset: WebPreset) => {
+    checkpoint();
+    const updated = customPresets.filter(p => p.id !== preset.id);
+    setCustomPresets(updated);
+    saveCustomPresets(updated);
+    // Drop the removed preset from every file that had it selected
+    setFileSettings(prev => prev.map(s => ({ ...s, webPresets: s.webPresets.filter(p => p.id !== preset.id) })));
+  };
+
   // Calculate dynamic resize dimensions
   const getResizeDimensions = () => {
     if (!currentImgDims) return '';
@@ -297,12 +902,29 @@ function App() {
             </h1>
           </div>
           {previewSrc && (
-            <button 
-              onClick={handleReset} 
-              className="text-sm font-medium text-neutral-400 hover:text-red-400 transition-colors flex items-center gap-1"
-            >
-              <ArrowLeft className="w-4 h-4" /> Start Over
-            </button>
+            <div className="flex items-center gap-5">
+              {autosaveError && !results && (
+                <span role="status" title={autosaveError} className="text-xs font-medium text-amber-400 flex items-center gap-1">
+                  <TriangleAlert className="w-4 h-4" /> Not autosaved
+                </span>
+              )}
+              {!results && (
+                <button
+                  onClick={handleSaveProject}
+                  disabled={isSavingProject || isProcessing}
+                  title="Download the images and all edits as a project file"
+                  className="text-sm font-medium text-neutral-400 hover:text-brand-400 transition-colors flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" /> {isSavingProject ? 'Saving...' : 'Save Project'}
+                </button>
+              )}
+              <button 
+                onClick={handleReset} 
+                className="text-sm font-medium text-neutral-400 hover:text-red-400 transition-colors flex items-center gap-1"
+              >
+                <ArrowLeft className="w-4 h-4" /> Start Over
+              </button>
+            </div>
           )}
         </div>
       </header>
@@ -314,15 +936,26 @@ function App() {
           <div className="max-w-2xl mx-auto mt-12 animate-in fade-in slide-in-from-bottom-4 duration-500">
             <div className="text-center mb-10">
               <h2 className="text-3xl font-bold text-white mb-3">Upload your artwork</h2>
-              <p className="text-neutral-400 text-lg">We'll convert it to A1 & A2 PDFs (300dpi) and web formats automatically.</p>
+              <p className="text-neutral-400 text-lg">We'll convert it to print-ready PDFs (300dpi) and web formats automatically.</p>
             </div>
+            <SessionList sessions={savedSessions} onResume={resumeSession} onDelete={removeSession} resumingId={resumingSessionId} />
             <ImageUploader onImageSelected={handleImageSelect} />
+            <div className="mt-4 text-center">
+              <input ref={projectInputRef} type="file" accept={`${PROJECT_FILE_EXTENSION},.zip`} className="hidden" onChange={handleOpenProject} />
+              <button
+                onClick={() => projectInputRef.current?.click()}
+                disabled={isOpeningProject}
+                className="text-sm text-neutral-400 hover:text-brand-400 transition-colors inline-flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <FolderOpen className="w-4 h-4" /> {isOpeningProject ? 'Opening project...' : `Open a project file (${PROJECT_FILE_EXTENSION})`}
+              </button>
+            </div>
             
             <div className="mt-12 grid grid-cols-1 md:grid-cols-3 gap-6">
               <FeatureCard 
                 icon={<Printer className="w-6 h-6 text-brand-500" />}
                 title="Print Ready"
-                desc="A1 & A2 formats with 3mm bleed included."
+                desc="A-series, B-series, US and custom sizes with bleed included."
               />
                <FeatureCard 
                 icon={<Layers className="w-6 h-6 text-brand-500" />}
@@ -332,7 +965,7 @@ function App() {
                <FeatureCard 
                 icon={<FileText className="w-6 h-6 text-brand-500" />}
                 title="Web Optimized"
-                desc="Includes a 912x1296px WebP version."
+                desc="Social & web crops, responsive sets and resized copies as WebP, AVIF, JPEG, PNG or TIFF."
               />
             </div>
           </div>
@@ -347,18 +980,36 @@ function App() {
                     {onlyResize ? "Image Preview" : "Adjust Position & Scale"}
                   </h3>
                   
-                  {isBatch && !onlyResize && (
-                    <Button variant="secondary" size="sm" onClick={applyCropToAll} className="h-8 text-xs gap-1.5 px-3">
-                        <Copy className="w-3.5 h-3.5" /> Apply Position to All
-                    </Button>
-                  )}
-                  
-                  {!onlyResize && !isBatch && (
-                    <span className="text-xs font-medium px-2 py-1 bg-neutral-900 rounded text-neutral-400 border border-neutral-800 ml-auto">
-                        Previewing A1 (Full Bleed)
-                    </span>
-                  )}
+                  <div className="flex items-center gap-2">
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="sm" onClick={handleUndo} disabled={history.past.length === 0} className="h-8 px-2" title="Undo (Ctrl+Z)" aria-label="Undo">
+                        <Undo2 className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={handleRedo} disabled={history.future.length === 0} className="h-8 px-2" title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+                        <Redo2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {isBatch && !onlyResize && (
+                      <BatchAlignmentPanel
+                        alignment={alignment}
+                        onChange={setAlignment}
+                        onApply={applyAlignmentToAll}
+                        pendingCount={imageDims.filter(dims => !dims).length}
+                      />
+                    )}
+                  </div>
+
                </div>
+
+               {!onlyResize && currentCrops && (
+                  <CropTargetSwitcher
+                    targets={cropTargets}
+                    activeKey={activeTarget.key}
+                    onSelect={setActiveTargetKey}
+                    linked={currentCrops.linked}
+                    onToggleLinked={toggleCropsLinked}
+                  />
+               )}
                
                {/* Main Editor Area */}
                <div className={`flex-1 min-h-0 ${onlyResize ? 'bg-neutral-900 rounded-xl overflow-hidden border border-neutral-800 flex items-center justify-center p-8' : ''}`}>
@@ -378,8 +1029,14 @@ function App() {
                         key={currentFileIndex}
                         imageSrc={previewSrc} 
                         onCropChange={handleCropChange}
-                        onLayoutChange={setEditorLayoutWidth}
-                        initialCrop={crops[currentFileIndex]}
+                        initialCrop={getTargetCrop(currentCrops, activeTarget.key)}
+                        target={activeTarget}
+                        proofProfile={proofProfile}
+                        printFormats={printFormats}
+                        perspective={currentCrops.perspective}
+                        onPerspectiveChange={handlePerspectiveChange}
+                        guides={guideSettings}
+                        onGuidesChange={handleGuidesChange}
                       />
                   )}
                </div>
@@ -406,10 +1063,14 @@ function App() {
                                    <img src={thumb} alt="" className="w-full h-full object-cover" />
                                    
                                    {/* Status Indicator Dot */}
-                                   <div className={`absolute top-0.5 right-0.5 w-2 h-2 rounded-full ${
-                                       fileSettings[idx].includePdf || fileSettings[idx].includeWebpFixed || fileSettings[idx].includeResize 
-                                       ? 'bg-emerald-500' 
-                                       : 'bg-neutral-600'
+                                   <div
+                                    title={getLowResolutionTargets(idx).map(c => `${c.format.label}: ${c.dpi} dpi`).join(', ') || undefined}
+                                    className={`absolute top-0.5 right-0.5 w-2 h-2 rounded-full ${
+                                       !hasAnyOutputSelected(fileSettings[idx])
+                                       ? 'bg-neutral-600'
+                                       : getLowResolutionTargets(idx).length > 0
+                                       ? 'bg-amber-500'
+                                       : 'bg-emerald-500'
                                    }`}></div>
                                </button>
                            ))}
@@ -435,6 +1096,24 @@ function App() {
               
               <div className="mb-6 flex-1 min-h-0 flex flex-col overflow-y-auto pr-1 custom-scrollbar">
                 
+                {/* --- Export Profiles Section --- */}
+                <div className="mb-6">
+                    <label className="block text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-2">
+                        Export Profile
+                    </label>
+                    <ExportProfilePicker
+                        profiles={exportProfiles}
+                        defaultProfileId={defaultProfileId}
+                        suggestedTemplate={isBatch && batchNameInput.trim() ? `${batchNameInput.trim()}_{n}` : '{name}'}
+                        onApply={applyExportProfile}
+                        onSave={saveExportProfile}
+                        onDelete={deleteExportProfile}
+                        onSetDefault={updateDefaultProfile}
+                        onImport={importExportProfiles}
+                        onExport={downloadExportProfiles}
+                    />
+                </div>
+
                 {/* --- File Naming Section --- */}
                 <div className="mb-6">
                     <label className="block text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-2">
@@ -496,30 +1175,135 @@ function App() {
                 <div className="space-y-3 mb-6">
                     {/* Option 1: PDF */}
                     <div 
-                        className="flex items-start gap-3 p-3 rounded-lg border border-neutral-800 bg-neutral-900/50 hover:bg-neutral-800 cursor-pointer transition-colors"
-                        onClick={() => toggleOption('includePdf')}
+                        className={`flex flex-col p-3 rounded-lg border border-neutral-800 bg-neutral-900/50 transition-all ${currentOptions.includePdf ? 'ring-1 ring-brand-500/50 bg-brand-500/5' : 'hover:bg-neutral-800'}`}
                     >
-                        <div className={`mt-0.5 ${currentOptions.includePdf ? 'text-brand-500' : 'text-neutral-600'}`}>
-                            {currentOptions.includePdf ? <CheckSquare className="w-5 h-5" /> : <Square className="w-5 h-5" />}
-                        </div>
-                        <div>
-                            <p className="text-sm font-medium text-neutral-200">Print Ready PDFs</p>
-                            <p className="text-xs text-neutral-500">A1 (60x84.7cm) & A2 (42.6x60cm) with 3mm bleed.</p>
+                        <div 
+                            className="flex items-start gap-3 cursor-pointer"
+                            onClick={() => toggleOption('includePdf')}
+                        >
+                            <div className={`mt-0.5 ${currentOptions.includePdf ? 'text-brand-500' : 'text-neutral-600'}`}>
+                                {currentOptions.includePdf ? <CheckSquare className="w-5 h-5" /> : <Square className="w-5 h-5" />}
+                            </div>
+                            <div className="flex-1">
+                                <p className="text-sm font-medium text-neutral-200">Print Ready PDFs</p>
+                                <p className="text-xs text-neutral-500">
+                                    {currentOptions.paperFormats.length > 0
+                                        ? currentOptions.paperFormats.map(f => `${f.label} (${formatPaperDimensions(f)})`).join(', ')
+                                        : 'No paper sizes selected.'}
+                                </p>
+                            </div>
                         </div>
+
+                        {/* Expandable Paper Size List */}
+                        {currentOptions.includePdf && (
+                            <div className="mt-4 pl-6 pr-1 animate-in fade-in slide-in-from-top-1 duration-200">
+                                <div className="flex items-center justify-between mb-3">
+                                    <span className="text-xs text-neutral-400">Orientation</span>
+                                    <div className="flex bg-neutral-950 rounded-lg border border-neutral-800 p-0.5">
+                                        {(['portrait', 'landscape', 'auto'] as Orientation[]).map(o => (
+                                            <button
+                                                key={o}
+                                                onClick={() => updateOrientation(o)}
+                                                className={`px-2 py-1 text-[10px] font-medium rounded-md capitalize transition-colors ${
+                                                    currentOptions.orientation === o
+                                                    ? 'bg-neutral-700 text-white'
+                                                    : 'text-neutral-500 hover:text-neutral-300'
+                                                }`}
+                                            >
+                                                {o}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="flex items-center justify-between mb-3">
+                                    <span className="text-xs text-neutral-400">Colour</span>
+                                    <div className="flex bg-neutral-950 rounded-lg border border-neutral-800 p-0.5">
+                                        {(['rgb', 'cmyk'] as const).map(mode => (
+                                            <button
+                                                key={mode}
+                                                onClick={() => updateColor(mode, currentOptions.cmykProfile)}
+                                                className={`px-2 py-1 text-[10px] font-medium rounded-md uppercase transition-colors ${
+                                                    currentOptions.colorMode === mode
+                                                    ? 'bg-neutral-700 text-white'
+                                                    : 'text-neutral-500 hover:text-neutral-300'
+                                                }`}
+                                            >
+                                                {mode}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <select
+                                    value={currentOptions.cmykProfile}
+                                    onChange={(e) => updateColor(currentOptions.colorMode, e.target.value)}
+                                    className="w-full mb-1 bg-neutral-950 border border-neutral-700 text-neutral-100 text-xs rounded px-2 py-1.5 focus:border-brand-500 outline-none"
+                                >
+                                    {Object.values(CMYK_PROFILES).map(profile => (
+                                        <option key={profile.id} value={profile.id}>{profile.label}</option>
+                                    ))}
+                                </select>
+                                <p className="text-[10px] text-neutral-500 mb-3">
+                                    {currentOptions.colorMode === 'cmyk'
+                                        ? 'Generic CMYK separation for this paper type, not a standard printing condition. No ICC profile is embedded.'
+                                        : 'RGB image without an output intent. The separation is used for soft proofing only.'}
+                                </p>
+                                <PaperFormatPicker
+                                    formats={getAllPaperFormats(customFormats)}
+                                    selected={currentOptions.paperFormats}
+                                    onToggle={togglePaperFormat}
+                                    onAddCustom={addCustomFormat}
+                                    onRemoveCustom={removeCustomFormat}
+                                />
+                                <div
+                                    className="flex items-start gap-2 mt-3 pt-3 border-t border-neutral-800 cursor-pointer"
+                                    onClick={() => toggleOption('printerMarks')}
+                                >
+                                    <div className={currentOptions.printerMarks ? 'text-brand-500' : 'text-neutral-600'}>
+                                        {currentOptions.printerMarks ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+                                    </div>
+                                    <div>
+                                        <p className="text-xs font-medium text-neutral-200">Printer's Marks</p>
+                                        <p className="text-[10px] text-neutral-500">Crop & registration marks, colour bar and slug info. Adds 1.5cm around the bleed.</p>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
                     </div>
 
-                    {/* Option 2: Fixed WebP */}
+                    {/* Option 2: Web crops (pixel presets) */}
                     <div 
-                        className="flex items-start gap-3 p-3 rounded-lg border border-neutral-800 bg-neutral-900/50 hover:bg-neutral-800 cursor-pointer transition-colors"
-                        onClick={() => toggleOption('includeWebpFixed')}
+                        className={`flex flex-col p-3 rounded-lg border border-neutral-800 bg-neutral-900/50 transition-all ${currentOptions.includeWebpFixed ? 'ring-1 ring-brand-500/50 bg-brand-500/5' : 'hover:bg-neutral-800'}`}
                     >
-                         <div className={`mt-0.5 ${currentOptions.includeWebpFixed ? 'text-brand-500' : 'text-neutral-600'}`}>
-                            {currentOptions.includeWebpFixed ? <CheckSquare className="w-5 h-5" /> : <Square className="w-5 h-5" />}
-                        </div>
-                        <div>
-                            <p className="text-sm font-medium text-neutral-200">WebP Thumbnail</p>
-                            <p className="text-xs text-neutral-500">Fixed 912x1296px crop. Optimized for web.</p>
+                        <div 
+                            className="flex items-start gap-3 cursor-pointer"
+                            onClick={() => toggleOption('includeWebpFixed')}
+                        >
+                            <div className={`mt-0.5 ${currentOptions.includeWebpFixed ? 'text-brand-500' : 'text-neutral-600'}`}>
+                                {currentOptions.includeWebpFixed ? <CheckSquare className="w-5 h-5" /> : <Square className="w-5 h-5" />}
+                            </div>
+                            <div>
+                                <p className="text-sm font-medium text-neutral-200">Web Crops</p>
+                                <p className="text-xs text-neutral-500">Exact pixel sizes for web & social, each at its own aspect ratio.</p>
+                            </div>
                         </div>
+
+                        {currentOptions.includeWebpFixed && (
+                            <div className="mt-4 pl-8 pr-1 animate-in fade-in slide-in-from-top-1 duration-200">
+                                <WebPresetPicker
+                                    presets={getAllWebPresets(customPresets)}
+                                    selected={currentOptions.webPresets}
+                                    onToggle={toggleWebPreset}
+                                    onAddCustom={addCustomPreset}
+                                    onRemoveCustom={removeCustomPreset}
+                                />
+                                <div className="mt-4">
+                                    <EncoderSettingsPicker
+                                        settings={currentOptions.webEncoder}
+                                        onChange={(encoder) => updateEncoder('webEncoder', encoder)}
+                                    />
+                                </div>
+                            </div>
+                        )}
                     </div>
 
                     {/* Option 3: Resize */}
@@ -564,6 +1348,7 @@ function App() {
                                     <button 
                                         onClick={() => {
                                             const scale = currentOptions.resizeScale;
+                                            checkpoint();
                                             setFileSettings(prev => prev.map(s => ({...s, resizeScale: scale})));
                                             alert(`Applied ${scale}% resize scale to all images.`);
                                         }}
@@ -573,24 +1358,63 @@ function App() {
                                     </button>
                                 )}
                                 
-                                <div className="mt-1 text-[10px] text-neutral-500">
-                                    Output: WebP (Lossy 85)
+                                <div className="mt-4">
+                                    <EncoderSettingsPicker
+                                        settings={currentOptions.resizeEncoder}
+                                        onChange={(encoder) => updateEncoder('resizeEncoder', encoder)}
+                                        allowResize
+                                    />
                                 </div>
                             </div>
                         )}
                     </div>
+
+                    {/* Option 4: Responsive set */}
+                    <div 
+                        className={`flex flex-col p-3 rounded-lg border border-neutral-800 bg-neutral-900/50 transition-all ${currentOptions.includeResponsive ? 'ring-1 ring-brand-500/50 bg-brand-500/5' : 'hover:bg-neutral-800'}`}
+                    >
+                        <div 
+                            className="flex items-start gap-3 cursor-pointer"
+                            onClick={() => toggleOption('includeResponsive')}
+                        >
+                            <div className={`mt-0.5 ${currentOptions.includeResponsive ? 'text-brand-500' : 'text-neutral-600'}`}>
+                                {currentOptions.includeResponsive ? <CheckSquare className="w-5 h-5" /> : <Square className="w-5 h-5" />}
+                            </div>
+                            <div className="flex-1">
+                                <p className="text-sm font-medium text-neutral-200">Responsive Set</p>
+                                <p className="text-xs text-neutral-500">Several widths for srcset, with HTML snippet & manifest. Ignores crop.</p>
+                            </div>
+                        </div>
+
+                        {currentOptions.includeResponsive && (
+                            <div className="mt-4 pl-8 pr-1 animate-in fade-in slide-in-from-top-1 duration-200">
+                                <ResponsiveSetPicker
+                                    options={currentOptions.responsive}
+                                    onChange={updateResponsive}
+                                    originalWidth={currentImgDims?.width}
+                                />
+                            </div>
+                        )}
+                    </div>
                 </div>
 
               </div>
               
-              <Button 
-                onClick={handleGenerate} 
-                className="w-full shadow-brand-500/10 shadow-lg" 
-                size="lg"
-                isLoading={isProcessing}
-              >
-                {isBatch ? `Generate Batch` : 'Generate Files'}
-              </Button>
+              {isProcessing ? (
+                <ExportProgressPanel
+                  items={progressItems}
+                  onCancel={handleCancel}
+                  isCancelling={isCancelling}
+                />
+              ) : (
+                <Button 
+                  onClick={handleGenerate} 
+                  className="w-full shadow-brand-500/10 shadow-lg" 
+                  size="lg"
+                >
+                  {isBatch ? `Generate Batch` : 'Generate Files'}
+                </Button>
+              )}
             </div>
           </div>
         ) : (
@@ -602,15 +1426,29 @@ function App() {
               </div>
               <h2 className="text-3xl font-bold text-white">Conversion Complete!</h2>
               <p className="text-neutral-400 mt-2">
-                  Processed files successfully.
+                  {cancelledSummary || (failedCount > 0
+                      ? `${results.length - failedCount} of ${results.length} files processed, ${failedCount} failed.`
+                      : 'Processed files successfully.')}
               </p>
             </div>
 
+            {isProcessing ? (
+                <div className="mb-8">
+                    <ExportProgressPanel items={progressItems} onCancel={handleCancel} isCancelling={isCancelling} />
+                </div>
+            ) : failedCount > 0 && (
+                <div className="flex justify-center mb-4">
+                    <Button variant="outline" size="sm" onClick={retryFailed} className="gap-1.5">
+                        <RotateCcw className="w-4 h-4" /> Retry {failedCount} failed
+                    </Button>
+                </div>
+            )}
+
             {/* Primary Action: ZIP Download */}
             <div className="flex justify-center mb-8">
-                 <Button onClick={downloadZip} size="lg" className="w-full md:w-auto min-w-[250px] shadow-xl">
+                 <Button onClick={downloadZip} size="lg" className="w-full md:w-auto min-w-[250px] shadow-xl" disabled={zipProgress !== null || isProcessing || failedCount === results.length}>
                     <Download className="w-5 h-5 mr-2" />
-                    Download All as ZIP
+                    {zipProgress !== null ? `Zipping… ${Math.round(zipProgress)}%` : 'Download All as ZIP'}
                  </Button>
             </div>
 
@@ -624,10 +1462,20 @@ function App() {
                              <span className="text-neutral-500 text-xs font-mono">#{idx + 1}</span>
                              {batch.originalName}
                          </h4>
+                         {batch.error && (
+                             <span className="text-[10px] font-bold uppercase tracking-wider text-red-400 bg-red-500/10 px-2 py-0.5 rounded">Failed</span>
+                         )}
                     </div>
                     {/* Individual Files */}
                     <div className="divide-y divide-neutral-800/50">
-                        {batch.files.length > 0 ? (
+                        {batch.error ? (
+                            <div className="px-6 py-3 flex items-start gap-2 text-xs text-red-400">
+                                <TriangleAlert className="w-4 h-4 shrink-0" />
+                                <span>
+                                    Failed while {STAGE_LABELS[batch.error.stage].toLowerCase()}: {batch.error.message}
+                                </span>
+                            </div>
+                        ) : batch.files.length > 0 ? (
                             batch.files.map((file, fIdx) => (
                                 <div key={fIdx} className="px-6 py-3 flex items-center justify-between hover:bg-neutral-800/50 transition-colors group">
                                     <div className="flex items-center gap-3">
@@ -637,7 +1485,7 @@ function App() {
                                             ? 'bg-rose-500/10 text-rose-400' 
                                             : 'bg-sky-500/10 text-sky-400'}`
                                         }>
-                                        {file.type === 'pdf' ? 'PDF' : 'IMG'}
+                                        {file.type === 'pdf' ? 'PDF' : file.type.toUpperCase()}
                                         </div>
                                         <div className="flex flex-col">
                                             <span className="text-sm text-neutral-300 font-medium">
@@ -648,6 +1496,13 @@ function App() {
                                             {file.sizeDisplay && (
                                                 <span className="text-[10px] text-emerald-400 font-medium mt-0.5">{file.sizeDisplay}</span>
                                             )}
+                                            {file.validation && (
+                                                <span className={`text-[10px] font-medium mt-0.5 ${file.validation.valid ? 'text-neutral-500' : 'text-red-400'}`}>
+                                                    {file.validation.valid
+                                                        ? 'TrimBox & BleedBox verified'
+                                                        : `Page box check failed: ${file.validation.errors.join(', ')}`}
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
                                     <Button variant="ghost" size="sm" onClick={() => downloadFile(file)} className="h-8 w-8 p-0">
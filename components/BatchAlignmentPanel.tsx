@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { LayoutGrid } from 'lucide-react';
+import { Button } from './Button';
+import { CropAlignment, CROP_ANCHORS, MAX_ALIGNMENT_PADDING } from '../services/cropGeometry';
+
+interface BatchAlignmentPanelProps {
+  alignment: CropAlignment;
+  onChange: (alignment: CropAlignment) => void;
+  onApply: () => void;
+  pendingCount: number; // Images whose size is still being read; the layout needs every size
+}
+
+export const BatchAlignmentPanel: React.FC<BatchAlignmentPanelProps> = ({ alignment, onChange, onApply, pendingCount }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const update = (changes: Partial<CropAlignment>) => onChange({ ...alignment, ...changes });
+
+  const handleApply = () => {
+    onApply();
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="secondary" size="sm" onClick={() => setIsOpen(!isOpen)} className="h-8 text-xs gap-1.5 px-3" aria-expanded={isOpen}>
+        <LayoutGrid className="w-3.5 h-3.5" /> Align All
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-10 z-20 w-64 p-4 space-y-4 bg-neutral-900 border border-neutral-700 rounded-xl shadow-2xl">
+          <div>
+            <span className="text-xs text-neutral-400">Scale</span>
+            <div className="grid grid-cols-2 gap-1 mt-1.5">
+              {(['fit', 'fill'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => update({ mode })}
+                  className={`py-1 text-xs font-medium rounded-md border capitalize transition-colors ${
+                    alignment.mode === mode
+                      ? 'bg-brand-500/15 border-brand-500/50 text-brand-300'
+                      : 'bg-neutral-950 border-neutral-800 text-neutral-500 hover:text-neutral-300'
+                  }`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className="text-xs text-neutral-400">Anchor</span>
+            <div className="grid grid-cols-3 gap-1 mt-1.5 w-24" role="radiogroup" aria-label="Anchor">
+              {CROP_ANCHORS.map(anchor => (
+                <button
+                  key={anchor}
+                  role="radio"
+                  aria-checked={alignment.anchor === anchor}
+                  aria-label={anchor.replace('-', ' ')}
+                  title={anchor.replace('-', ' ')}
+                  onClick={() => update({ anchor })}
+                  className={`h-7 rounded border transition-colors ${
+                    alignment.anchor === anchor
+                      ? 'bg-brand-500 border-brand-400'
+                      : 'bg-neutral-950 border-neutral-800 hover:border-neutral-600'
+                  }`}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <span className="text-xs text-neutral-400">Padding</span>
+              <span className="text-xs font-mono font-medium text-brand-400">{alignment.paddingPercent}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max={MAX_ALIGNMENT_PADDING}
+              value={alignment.paddingPercent}
+              onChange={(e) => update({ paddingPercent: parseInt(e.target.value) })}
+              className="w-full h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+            />
+          </div>
+
+          <p className="text-[10px] text-neutral-500">
+            Laid out against each image's own size, so portrait and landscape shots can share one rule.
+          </p>
+
+          <Button size="sm" onClick={handleApply} disabled={pendingCount > 0} className="w-full h-8 text-xs">
+            {pendingCount > 0
+              ? `Reading ${pendingCount} image ${pendingCount === 1 ? 'size' : 'sizes'}...`
+              : 'Apply to All Images'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
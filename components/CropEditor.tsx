@@ -1,22 +1,83 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { CropState, SPECS } from '../types';
-import { Move, ZoomIn, Info, AlignHorizontalJustifyCenter, Maximize, Minimize } from 'lucide-react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { CropState, PaperFormat, PerspectiveQuad } from '../types';
+import { CmykProfile, softProofImageData } from '../services/colorManagement';
+import { getEffectiveDpi, MIN_EFFECTIVE_DPI, TARGET_DPI } from '../services/preflight';
+import { CropTarget } from '../services/cropTargets';
+import { drawCrop, panCrop, zoomCrop, rotateCrop, flipCrop, getOrientedSize, getFitScale, getFillScale, MAX_STRAIGHTEN_DEG, MIN_ZOOM, MAX_ZOOM } from '../services/cropGeometry';
+import { DEFAULT_QUAD, getCropSourceSize, fitPixels, warpPerspective, isConvexQuad } from '../services/perspective';
+import { getSourceSize, RenderCanvas } from '../services/canvasUtils';
+import { GuideSettings, getFrameInsets, getSnapLines, snapCrop, SNAP_THRESHOLD_PX } from '../services/guides';
+import { GuidesPanel } from './GuidesPanel';
+import { Move, ZoomIn, Info, AlignHorizontalJustifyCenter, Maximize, Minimize, Palette, TriangleAlert, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2, Ruler, Scan, Check, Undo2 } from 'lucide-react';
+
+// Longest side of the soft-proof preview; proofing full-resolution images would stall the UI
+const PROOF_MAX_SIZE = 1600;
+// Cells per side of the grid shown while straightening
+const STRAIGHTEN_GRID_CELLS = 8;
+// Grab distance of the perspective corner handles, in screen pixels
+const HANDLE_HIT_RADIUS = 18;
+// Keyboard steps: arrows move by screen pixels, +/- change the zoom; Shift multiplies both
+const NUDGE_PX = 1;
+const ZOOM_STEP = 0.01;
+const SHIFT_MULTIPLIER = 10;
+// Zoom change per wheel pixel
+const WHEEL_ZOOM_SPEED = 0.0015;
+const CORNER_LABELS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+// Grab distance of user guides, in screen pixels
+const GUIDE_HIT_RADIUS = 5;
 
 interface CropEditorProps {
   imageSrc: string;
   onCropChange: (crop: CropState) => void;
-  onLayoutChange: (width: number) => void;
-  initialCrop: CropState;
+  initialCrop: CropState; // Crop of the current target
+  target: CropTarget; // Previewed target; print formats come already oriented
+  proofProfile: CmykProfile; // CMYK separation used for soft proofing
+  printFormats: PaperFormat[]; // Selected print targets (oriented) for the DPI readout
+  perspective: PerspectiveQuad | null; // Artwork corners of this file, shared by all targets
+  onPerspectiveChange: (quad: PerspectiveQuad | null) => void;
+  guides: GuideSettings; // Overlays and snapping, shared by all files
+  onGuidesChange: (guides: GuideSettings) => void;
 }
 
-export const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onCropChange, onLayoutChange, initialCrop }) => {
+export const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onCropChange, initialCrop, target, proofProfile, printFormats, perspective, onPerspectiveChange, guides, onGuidesChange }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [image, setImage] = useState<HTMLImageElement | null>(null);
-  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  // Pointer position and crop when the drag started
+  const [dragStart, setDragStart] = useState<{ x: number; y: number; crop: CropState } | null>(null);
+  // Finger distance, midpoint (canvas pixels) and crop when a pinch started
+  const pinchStartRef = useRef<{ distance: number; x: number; y: number; crop: CropState } | null>(null);
   const [crop, setCrop] = useState<CropState>(initialCrop);
   
   const [viewLayout, setViewLayout] = useState<{width: number, height: number} | null>(null);
+  // Grid overlay while the straighten slider is in use
+  const [isStraightening, setIsStraightening] = useState(false);
+
+  // Perspective mode: the whole photo with draggable artwork corners instead of the crop frame
+  const [isPerspectiveMode, setIsPerspectiveMode] = useState(false);
+  const [draftQuad, setDraftQuad] = useState<PerspectiveQuad>(perspective || DEFAULT_QUAD);
+  const [activeHandle, setActiveHandle] = useState<number | null>(null);
+  // Corner moved by the arrow keys, shown while the editor has keyboard focus
+  const [selectedCorner, setSelectedCorner] = useState(0);
+  const [hasFocus, setHasFocus] = useState(false);
+  // Screen rectangle of the photo in perspective mode, for hit testing
+  const photoRectRef = useRef({ x: 0, y: 0, width: 1, height: 1 });
+  // Screen rectangle of the crop frame, for placing and hit testing guides
+  const frameRectRef = useRef({ x: 0, y: 0, width: 1, height: 1 });
+  // Lines the image snapped to during the current drag, in frame pixels
+  const snappedRef = useRef<{ x: number | null; y: number | null }>({ x: null, y: null });
+  // User guide being dragged
+  const [draggedGuide, setDraggedGuide] = useState<string | null>(null);
+
+  const commitCrop = (next: CropState) => {
+    setCrop(next);
+    onCropChange(next);
+  };
+
+  // Soft proofing
+  const [softProof, setSoftProof] = useState(false);
+  const [gamutWarning, setGamutWarning] = useState(false);
+  const [proofCanvas, setProofCanvas] = useState<HTMLCanvasElement | null>(null);
 
   // Load Image
   useEffect(() => {
@@ -29,11 +90,93 @@ export const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onCropChange,
     };
   }, [imageSrc]); // Only reload if source changes. We rely on key={} in parent to handle file switches cleanly.
 
+  // Follow crops set from outside: switching targets, batch alignment
+  useEffect(() => {
+    setCrop(initialCrop);
+  }, [initialCrop]);
+
   useEffect(() => {
-    if (viewLayout) {
-      onLayoutChange(viewLayout.width);
+    setDraftQuad(perspective || DEFAULT_QUAD);
+  }, [perspective]);
+
+  // Downscaled, flattened copy of the artwork that the crop is previewed on
+  const rectifiedPreview = useMemo<RenderCanvas | null>(() => {
+    if (!image || !perspective) return null;
+    const size = getCropSourceSize({ width: image.naturalWidth, height: image.naturalHeight }, perspective);
+    const preview = fitPixels(size, PROOF_MAX_SIZE * PROOF_MAX_SIZE);
+    return warpPerspective(image, perspective, preview.width, preview.height, preview.width * preview.height * 4);
+  }, [image, perspective]);
+
+  // What the crop is made on, and its full-resolution size for the crop math and DPI readout
+  const cropSource = rectifiedPreview || image;
+  const cropSize = image
+    ? getCropSourceSize({ width: image.naturalWidth, height: image.naturalHeight }, perspective)
+    : null;
+
+  // Build a downscaled, gamut-mapped copy of the image when soft proofing is on
+  useEffect(() => {
+    if (!cropSource || !softProof) {
+      setProofCanvas(null);
+      return;
     }
-  }, [viewLayout, onLayoutChange]);
+    const sourceSize = getSourceSize(cropSource);
+    const scale = Math.min(1, PROOF_MAX_SIZE / Math.max(sourceSize.width, sourceSize.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(sourceSize.width * scale);
+    canvas.height = Math.round(sourceSize.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.drawImage(cropSource, 0, 0, canvas.width, canvas.height);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    softProofImageData(pixels, proofProfile, gamutWarning);
+    ctx.putImageData(pixels, 0, 0);
+    setProofCanvas(canvas);
+  }, [cropSource, softProof, gamutWarning, proofProfile]);
+
+  // Perspective mode: photo fitted to the canvas, artwork outline and corner handles
+  const drawPerspective = (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+    if (!image) return;
+    const margin = 40;
+    const scale = Math.min((w - margin * 2) / image.naturalWidth, (h - margin * 2) / image.naturalHeight);
+    const rect = {
+      x: (w - image.naturalWidth * scale) / 2,
+      y: (h - image.naturalHeight * scale) / 2,
+      width: image.naturalWidth * scale,
+      height: image.naturalHeight * scale,
+    };
+    photoRectRef.current = rect;
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+
+    const corners = draftQuad.map(p => ({ x: rect.x + p.x * rect.width, y: rect.y + p.y * rect.height }));
+    const tracePath = () => {
+      ctx.moveTo(corners[0].x, corners[0].y);
+      corners.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+    };
+
+    // Dim everything outside the artwork
+    ctx.fillStyle = 'rgba(10, 10, 10, 0.6)';
+    ctx.beginPath();
+    ctx.rect(0, 0, w, h);
+    tracePath();
+    ctx.fill('evenodd');
+
+    ctx.strokeStyle = '#f97316'; // brand orange
+    ctx.lineWidth = 2;
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    tracePath();
+    ctx.stroke();
+
+    corners.forEach((p, index) => {
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, index === activeHandle ? 9 : 7, 0, Math.PI * 2);
+      ctx.fillStyle = hasFocus && index === selectedCorner ? '#f97316' : '#ffffff';
+      ctx.fill();
+      ctx.stroke();
+    });
+  };
 
   // Main Drawing Loop
   const draw = useCallback(() => {
@@ -49,10 +192,14 @@ export const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onCropChange,
     ctx.fillStyle = '#0a0a0a'; 
     ctx.fillRect(0, 0, w, h);
 
-    // Calculate Aspect Ratio of the Target (A1 Full Bleed)
-    const fullBleedWidth = SPECS.A1.widthCm + (SPECS.A1.bleedMm * 0.2);
-    const fullBleedHeight = SPECS.A1.heightCm + (SPECS.A1.bleedMm * 0.2);
-    const targetAspect = fullBleedWidth / fullBleedHeight;
+    if (isPerspectiveMode) {
+      drawPerspective(ctx, w, h);
+      return;
+    }
+    if (!cropSource || !cropSize) return;
+
+    // Aspect Ratio of the Target (Full Bleed for print formats)
+    const targetAspect = target.aspect;
     
     const margin = 40;
     let viewH = h - (margin * 2);
@@ -69,23 +216,19 @@ export const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onCropChange,
 
     const viewX = (w - viewW) / 2;
     const viewY = (h - viewH) / 2;
+    frameRectRef.current = { x: viewX, y: viewY, width: viewW, height: viewH };
 
-    const cx = w / 2;
-    const cy = h / 2;
-    
-    const baseScale = viewW / image.naturalWidth;
-    const currentScale = baseScale * Math.max(0.05, crop.scale); 
-
-    const drawW = image.naturalWidth * currentScale;
-    const drawH = image.naturalHeight * currentScale;
-    
-    const drawX = cx - (drawW / 2) + crop.x;
-    const drawY = cy - (drawH / 2) + crop.y;
+    const source = proofCanvas || cropSource;
+    // Same drawing the renderers use for the full-size output, in frame coordinates
+    const drawImageInFrame = () => {
+      ctx.translate(viewX, viewY);
+      drawCrop(ctx, source, crop, cropSize.width, cropSize.height, viewW, viewH);
+    };
 
     // 1. Draw Ghost Image (dimmed background)
     ctx.save();
     ctx.globalAlpha = 0.15;
-    ctx.drawImage(image, drawX, drawY, drawW, drawH);
+    drawImageInFrame();
     ctx.restore();
 
     // 2. Draw White Canvas (The Paper)
@@ -101,12 +244,66 @@ export const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onCropChange,
     ctx.beginPath();
     ctx.rect(viewX, viewY, viewW, viewH);
     ctx.clip();
-    ctx.drawImage(image, drawX, drawY, drawW, drawH);
+    drawImageInFrame();
     ctx.restore();
 
-    // 4. Visual Guides
-    const pxPerCm = viewW / fullBleedWidth;
-    const bleedPx = (SPECS.A1.bleedMm / 10) * pxPerCm;
+    // Straighten grid: level lines to line the image up against
+    if (isStraightening) {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      for (let i = 1; i < STRAIGHTEN_GRID_CELLS; i++) {
+        const gx = viewX + (viewW * i) / STRAIGHTEN_GRID_CELLS;
+        const gy = viewY + (viewH * i) / STRAIGHTEN_GRID_CELLS;
+        ctx.moveTo(gx, viewY);
+        ctx.lineTo(gx, viewY + viewH);
+        ctx.moveTo(viewX, gy);
+        ctx.lineTo(viewX + viewW, gy);
+      }
+      ctx.stroke();
+    }
+
+    // 4. Visual Guides (web targets have no bleed, so the cut line is the frame edge)
+    const format = target.format;
+    const insets = getFrameInsets(target, viewW, viewH, guides);
+    const bleedPx = insets.bleed;
+    const trimW = viewW - bleedPx * 2;
+    const trimH = viewH - bleedPx * 2;
+
+    // Composition lines within the trim
+    if (guides.thirds) {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.45)';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      for (let i = 1; i < 3; i++) {
+        ctx.moveTo(viewX + bleedPx + (trimW * i) / 3, viewY + bleedPx);
+        ctx.lineTo(viewX + bleedPx + (trimW * i) / 3, viewY + bleedPx + trimH);
+        ctx.moveTo(viewX + bleedPx, viewY + bleedPx + (trimH * i) / 3);
+        ctx.lineTo(viewX + bleedPx + trimW, viewY + bleedPx + (trimH * i) / 3);
+      }
+      ctx.stroke();
+    }
+    if (guides.centerLines) {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      ctx.moveTo(viewX + viewW / 2, viewY);
+      ctx.lineTo(viewX + viewW / 2, viewY + viewH);
+      ctx.moveTo(viewX, viewY + viewH / 2);
+      ctx.lineTo(viewX + viewW, viewY + viewH / 2);
+      ctx.stroke();
+    }
+
+    // Safe Zone (Green Dashed): keep text and key detail inside
+    if (insets.safe !== null && insets.safe * 2 < Math.min(viewW, viewH)) {
+      ctx.strokeStyle = '#22c55e'; // green-500
+      ctx.lineWidth = 1;
+      ctx.setLineDash([6, 3]);
+      ctx.strokeRect(viewX + insets.safe, viewY + insets.safe, viewW - insets.safe * 2, viewH - insets.safe * 2);
+    }
 
     // Cut Line (Blue)
     ctx.strokeStyle = '#3b82f6'; // blue-500
@@ -115,10 +312,12 @@ export const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onCropChange,
     ctx.strokeRect(viewX + bleedPx, viewY + bleedPx, viewW - (bleedPx * 2), viewH - (bleedPx * 2));
 
     // Bleed Edge (Red Dashed)
-    ctx.strokeStyle = '#ef4444'; // red-500
-    ctx.lineWidth = 1;
-    ctx.setLineDash([4, 4]);
-    ctx.strokeRect(viewX, viewY, viewW, viewH);
+    if (format) {
+      ctx.strokeStyle = '#ef4444'; // red-500
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.strokeRect(viewX, viewY, viewW, viewH);
+    }
     
     // Mask out the area outside bleed
     ctx.fillStyle = 'rgba(10, 10, 10, 0.85)'; // neutral-950 with opacity
@@ -127,7 +326,40 @@ export const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onCropChange,
     ctx.rect(viewX, viewY, viewW, viewH);
     ctx.fill('evenodd');
 
-  }, [image, crop, viewLayout]);
+    // User guides run across the whole canvas so they can be grabbed outside the frame
+    ctx.strokeStyle = '#22d3ee'; // cyan-400
+    ctx.lineWidth = 1;
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    guides.guides.forEach(guide => {
+      if (guide.axis === 'vertical') {
+        ctx.moveTo(viewX + guide.position * viewW, 0);
+        ctx.lineTo(viewX + guide.position * viewW, h);
+      } else {
+        ctx.moveTo(0, viewY + guide.position * viewH);
+        ctx.lineTo(w, viewY + guide.position * viewH);
+      }
+    });
+    ctx.stroke();
+
+    // Lines the image is snapped to
+    const snapped = snappedRef.current;
+    if (snapped.x !== null || snapped.y !== null) {
+      ctx.strokeStyle = '#facc15'; // yellow-400
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      if (snapped.x !== null) {
+        ctx.moveTo(viewX + snapped.x, viewY);
+        ctx.lineTo(viewX + snapped.x, viewY + viewH);
+      }
+      if (snapped.y !== null) {
+        ctx.moveTo(viewX, viewY + snapped.y);
+        ctx.lineTo(viewX + viewW, viewY + snapped.y);
+      }
+      ctx.stroke();
+    }
+
+  }, [image, crop, viewLayout, target, proofCanvas, isStraightening, isPerspectiveMode, draftQuad, activeHandle, selectedCorner, hasFocus, cropSource, guides]);
 
   useEffect(() => {
     let animationFrameId: number;
@@ -141,82 +373,294 @@ export const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onCropChange,
 
   // --- Interaction Handlers ---
 
+  // Pointer position relative to the canvas
+  const toCanvasPoint = (clientX: number, clientY: number) => {
+    const bounds = canvasRef.current?.getBoundingClientRect();
+    return { x: clientX - (bounds?.left || 0), y: clientY - (bounds?.top || 0) };
+  };
+
+  const grabHandle = (clientX: number, clientY: number) => {
+    const point = toCanvasPoint(clientX, clientY);
+    const rect = photoRectRef.current;
+    const distances = draftQuad.map(p => Math.hypot(rect.x + p.x * rect.width - point.x, rect.y + p.y * rect.height - point.y));
+    const nearest = distances.indexOf(Math.min(...distances));
+    setActiveHandle(distances[nearest] <= HANDLE_HIT_RADIUS ? nearest : null);
+  };
+
+  const moveHandle = (clientX: number, clientY: number) => {
+    if (activeHandle === null) return;
+    const point = toCanvasPoint(clientX, clientY);
+    const rect = photoRectRef.current;
+    const next = [...draftQuad] as PerspectiveQuad;
+    next[activeHandle] = {
+      x: Math.min(1, Math.max(0, (point.x - rect.x) / rect.width)),
+      y: Math.min(1, Math.max(0, (point.y - rect.y) / rect.height)),
+    };
+    // Folding the quad over itself has no rectangle to map to, so such moves are ignored
+    if (isConvexQuad(next)) setDraftQuad(next);
+  };
+
+  // User guide under the pointer, if any
+  const findGuide = (clientX: number, clientY: number) => {
+    const point = toCanvasPoint(clientX, clientY);
+    const frame = frameRectRef.current;
+    return guides.guides.find(guide =>
+      guide.axis === 'vertical'
+        ? Math.abs(frame.x + guide.position * frame.width - point.x) <= GUIDE_HIT_RADIUS
+        : Math.abs(frame.y + guide.position * frame.height - point.y) <= GUIDE_HIT_RADIUS
+    );
+  };
+
+  // Unclamped while dragging; guides dropped outside the frame are removed on release
+  const moveGuide = (clientX: number, clientY: number) => {
+    const point = toCanvasPoint(clientX, clientY);
+    const frame = frameRectRef.current;
+    onGuidesChange({
+      ...guides,
+      guides: guides.guides.map(guide =>
+        guide.id !== draggedGuide ? guide : {
+          ...guide,
+          position: guide.axis === 'vertical' ? (point.x - frame.x) / frame.width : (point.y - frame.y) / frame.height,
+        }
+      ),
+    });
+  };
+
+  // `snap` is false while Alt is held
+  const dragTo = (clientX: number, clientY: number, snap = true) => {
+    if (isPerspectiveMode) {
+      moveHandle(clientX, clientY);
+      return;
+    }
+    if (draggedGuide) {
+      moveGuide(clientX, clientY);
+      return;
+    }
+    if (!dragStart || !cropSize || !viewLayout) return;
+    const moved = panCrop(
+      dragStart.crop,
+      clientX - dragStart.x,
+      clientY - dragStart.y,
+      cropSize.width,
+      cropSize.height,
+      viewLayout.width
+    );
+    if (!guides.snap || !snap) {
+      snappedRef.current = { x: null, y: null };
+      setCrop(moved);
+      return;
+    }
+    const lines = getSnapLines(viewLayout.width, viewLayout.height, getFrameInsets(target, viewLayout.width, viewLayout.height, guides).bleed, guides.guides);
+    const snapped = snapCrop(moved, cropSize.width, cropSize.height, viewLayout.width, viewLayout.height, lines, SNAP_THRESHOLD_PX);
+    snappedRef.current = { x: snapped.x, y: snapped.y };
+    setCrop(snapped.crop);
+  };
+
+  const startDrag = (clientX: number, clientY: number) => {
+    if (isPerspectiveMode) {
+      grabHandle(clientX, clientY);
+      return;
+    }
+    const guide = findGuide(clientX, clientY);
+    if (guide) setDraggedGuide(guide.id);
+    else setDragStart({ x: clientX, y: clientY, crop });
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
-    setDragStart({ x: e.clientX - crop.x, y: e.clientY - crop.y });
+    startDrag(e.clientX, e.clientY);
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (dragStart) {
-      const newX = e.clientX - dragStart.x;
-      const newY = e.clientY - dragStart.y;
-      setCrop(prev => ({ ...prev, x: newX, y: newY }));
-    }
+    dragTo(e.clientX, e.clientY, !e.altKey);
   };
 
   const handleMouseUp = () => {
+    if (isPerspectiveMode) {
+      if (activeHandle !== null) onPerspectiveChange(draftQuad);
+      setActiveHandle(null);
+      return;
+    }
+    if (draggedGuide) {
+      setDraggedGuide(null);
+      onGuidesChange({ ...guides, guides: guides.guides.filter(g => g.position >= 0 && g.position <= 1) });
+      return;
+    }
+    // Leaving the canvas also ends up here; only an actual drag changes the crop
+    if (!dragStart) return;
+    snappedRef.current = { x: null, y: null };
     setDragStart(null);
     onCropChange(crop);
   };
 
+  // Two fingers: distance and midpoint in canvas pixels
+  const readPinch = (touches: React.TouchList) => {
+    const a = toCanvasPoint(touches[0].clientX, touches[0].clientY);
+    const b = toCanvasPoint(touches[1].clientX, touches[1].clientY);
+    return { distance: Math.hypot(b.x - a.x, b.y - a.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  };
+
   const handleTouchStart = (e: React.TouchEvent) => {
+    if (e.touches.length === 2 && !isPerspectiveMode) {
+      setDragStart(null);
+      pinchStartRef.current = { ...readPinch(e.touches), crop };
+      return;
+    }
     const touch = e.touches[0];
-    setDragStart({ x: touch.clientX - crop.x, y: touch.clientY - crop.y });
+    startDrag(touch.clientX, touch.clientY);
   };
   
   const handleTouchMove = (e: React.TouchEvent) => {
-    if (dragStart) {
-      const touch = e.touches[0];
-      const newX = touch.clientX - dragStart.x;
-      const newY = touch.clientY - dragStart.y;
-      setCrop(prev => ({ ...prev, x: newX, y: newY }));
+    const pinchStart = pinchStartRef.current;
+    if (pinchStart && e.touches.length === 2) {
+      if (!cropSize || !viewLayout || !canvasRef.current) return;
+      const pinch = readPinch(e.touches);
+      // Zoom around where the pinch started, then follow the midpoint
+      const focus = { x: pinchStart.x - canvasRef.current.width / 2, y: pinchStart.y - canvasRef.current.height / 2 };
+      const zoomed = zoomCrop(
+        pinchStart.crop,
+        pinchStart.crop.scale * (pinch.distance / Math.max(1, pinchStart.distance)),
+        cropSize.width,
+        cropSize.height,
+        viewLayout.width,
+        focus
+      );
+      setCrop(panCrop(zoomed, pinch.x - pinchStart.x, pinch.y - pinchStart.y, cropSize.width, cropSize.height, viewLayout.width));
+      return;
+    }
+    const touch = e.touches[0];
+    dragTo(touch.clientX, touch.clientY);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (pinchStartRef.current && e.touches.length === 1) {
+      // One finger left: carry on panning from the pinched crop
+      pinchStartRef.current = null;
+      setDragStart({ x: e.touches[0].clientX, y: e.touches[0].clientY, crop });
+      return;
+    }
+    if (e.touches.length > 0) return;
+    if (pinchStartRef.current) {
+      pinchStartRef.current = null;
+      onCropChange(crop);
+      return;
     }
+    handleMouseUp();
+  };
+
+  // Wheel zooms towards the cursor. Registered natively because React's wheel listener is passive.
+  const wheelRef = useRef<(e: WheelEvent) => void>(() => {});
+  wheelRef.current = (e: WheelEvent) => {
+    if (isPerspectiveMode || !cropSize || !viewLayout || !canvasRef.current) return;
+    e.preventDefault();
+    const deltaPx = e.deltaY * (e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? 400 : 1);
+    const point = toCanvasPoint(e.clientX, e.clientY);
+    const focus = { x: point.x - canvasRef.current.width / 2, y: point.y - canvasRef.current.height / 2 };
+    commitCrop(zoomCrop(crop, crop.scale * Math.exp(-deltaPx * WHEEL_ZOOM_SPEED), cropSize.width, cropSize.height, viewLayout.width, focus));
+  };
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onWheel = (e: WheelEvent) => wheelRef.current(e);
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Keyboard: arrows nudge (the selected corner in perspective mode), +/- zoom, Home re-centers
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Leave browser and app shortcuts (zoom, undo) alone
+    if (e.ctrlKey || e.metaKey) return;
+    const step = e.shiftKey ? SHIFT_MULTIPLIER : 1;
+    const arrows: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1],
+    };
+
+    if (isPerspectiveMode) {
+      if (['1', '2', '3', '4'].includes(e.key)) {
+        setSelectedCorner(parseInt(e.key) - 1);
+      } else if (arrows[e.key]) {
+        const rect = photoRectRef.current;
+        const [dx, dy] = arrows[e.key];
+        const next = [...draftQuad] as PerspectiveQuad;
+        const corner = next[selectedCorner];
+        next[selectedCorner] = {
+          x: Math.min(1, Math.max(0, corner.x + (dx * NUDGE_PX * step) / rect.width)),
+          y: Math.min(1, Math.max(0, corner.y + (dy * NUDGE_PX * step) / rect.height)),
+        };
+        if (!isConvexQuad(next)) return;
+        setDraftQuad(next);
+        onPerspectiveChange(next);
+      } else if (e.key === 'Enter' || e.key === 'Escape') {
+        setIsPerspectiveMode(false);
+      } else {
+        return;
+      }
+      e.preventDefault();
+      return;
+    }
+
+    if (!cropSize || !viewLayout) return;
+    if (arrows[e.key]) {
+      const [dx, dy] = arrows[e.key];
+      commitCrop(panCrop(crop, dx * NUDGE_PX * step, dy * NUDGE_PX * step, cropSize.width, cropSize.height, viewLayout.width));
+    } else if (e.key === '+' || e.key === '=') {
+      commitCrop(zoomCrop(crop, crop.scale + ZOOM_STEP * step, cropSize.width, cropSize.height, viewLayout.width));
+    } else if (e.key === '-' || e.key === '_') {
+      commitCrop(zoomCrop(crop, crop.scale - ZOOM_STEP * step, cropSize.width, cropSize.height, viewLayout.width));
+    } else if (e.key === 'Home') {
+      handleCenter();
+    } else {
+      return;
+    }
+    e.preventDefault();
   };
 
   const handleZoom = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newScale = parseFloat(e.target.value);
     const newCrop = { ...crop, scale: newScale };
-    setCrop(newCrop);
-    onCropChange(newCrop);
+    commitCrop(newCrop);
   };
 
   const handleCenter = () => {
-    const newCrop = { ...crop, x: 0, y: 0 };
-    setCrop(newCrop);
-    onCropChange(newCrop);
+    const newCrop = { ...crop, centerX: 0.5, centerY: 0.5 };
+    commitCrop(newCrop);
   };
 
   const handleFit = () => {
-    if (!image || !viewLayout) return;
-    const imageAspect = image.naturalWidth / image.naturalHeight;
-    const viewAspect = viewLayout.width / viewLayout.height;
-    
-    let scale = 1;
-    if (imageAspect > viewAspect) {
-        scale = 1;
-    } else {
-        scale = (viewLayout.height * image.naturalWidth) / (viewLayout.width * image.naturalHeight);
-    }
-
-    const newCrop = { x: 0, y: 0, scale };
-    setCrop(newCrop);
-    onCropChange(newCrop);
+    if (!cropSize) return;
+    const oriented = getOrientedSize(cropSize.width, cropSize.height, crop);
+    const scale = getFitScale(oriented.width, oriented.height, target.aspect);
+    commitCrop({ ...crop, centerX: 0.5, centerY: 0.5, scale });
   };
 
   const handleFill = () => {
-    if (!image || !viewLayout) return;
-    const imageAspect = image.naturalWidth / image.naturalHeight;
-    const viewAspect = viewLayout.width / viewLayout.height;
-    
-    let scale = 1;
-    if (imageAspect > viewAspect) {
-        scale = (viewLayout.height * image.naturalWidth) / (viewLayout.width * image.naturalHeight);
-    } else {
-        scale = 1;
-    }
-    
-    const newCrop = { x: 0, y: 0, scale };
-    setCrop(newCrop);
-    onCropChange(newCrop);
+    if (!cropSize) return;
+    const oriented = getOrientedSize(cropSize.width, cropSize.height, crop);
+    const scale = getFillScale(oriented.width, oriented.height, target.aspect);
+    commitCrop({ ...crop, centerX: 0.5, centerY: 0.5, scale });
+  };
+
+  const handleRotate = (clockwise: boolean) => {
+    if (!cropSize) return;
+    commitCrop(rotateCrop(crop, cropSize.width, cropSize.height, clockwise));
+  };
+
+  const handleFlip = (axis: 'horizontal' | 'vertical') => commitCrop(flipCrop(crop, axis));
+
+  const handleStraighten = (e: React.ChangeEvent<HTMLInputElement>) => {
+    commitCrop({ ...crop, straighten: parseFloat(e.target.value) });
+  };
+
+  // Live effective resolution per print target; the zoom refers to the rotated image's width
+  const dpiReadout = cropSize
+    ? printFormats.map(format => ({
+        format,
+        dpi: getEffectiveDpi(getOrientedSize(cropSize.width, cropSize.height, crop).width, format, crop.scale)
+      }))
+    : [];
+
+  const resetPerspective = () => {
+    setDraftQuad(DEFAULT_QUAD);
+    onPerspectiveChange(null);
   };
 
   useEffect(() => {
@@ -237,60 +681,213 @@ export const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onCropChange,
       {/* Canvas Area */}
       <div 
         ref={containerRef} 
-        className="flex-1 min-h-[400px] bg-neutral-900 rounded-xl overflow-hidden relative cursor-move shadow-inner touch-none border border-neutral-800"
+        className={`flex-1 min-h-[400px] bg-neutral-900 rounded-xl overflow-hidden relative shadow-inner touch-none border border-neutral-800 outline-none focus-visible:ring-2 focus-visible:ring-brand-500 ${isPerspectiveMode ? 'cursor-crosshair' : 'cursor-move'}`}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
         onTouchStart={handleTouchStart}
         onTouchMove={handleTouchMove}
-        onTouchEnd={handleMouseUp}
+        onTouchEnd={handleTouchEnd}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setHasFocus(true)}
+        onBlur={() => setHasFocus(false)}
+        tabIndex={0}
+        role="application"
+        aria-roledescription="crop editor"
+        aria-label={isPerspectiveMode ? 'Perspective corners' : `Crop for ${target.label}`}
+        aria-describedby="crop-editor-help"
       >
         <canvas ref={canvasRef} className="w-full h-full block" />
         
+        {isPerspectiveMode ? (
+        <div className="absolute top-4 left-4 bg-neutral-900/90 backdrop-blur-md px-3 py-2 rounded-lg text-xs font-medium text-neutral-300 shadow-lg border border-neutral-700 pointer-events-none flex items-center gap-2">
+          <Scan className="w-3 h-3 text-brand-400" /> Drag the corners onto the artwork's corners
+        </div>
+        ) : (
         <div className="absolute top-4 left-4 bg-neutral-900/90 backdrop-blur-md px-3 py-2 rounded-lg text-xs font-medium text-neutral-300 shadow-lg border border-neutral-700 pointer-events-none flex flex-col gap-1">
-          <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.8)]"></span> Cut Line</div>
-          <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full border border-dashed border-red-500"></span> Bleed Edge</div>
+          <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.8)]"></span> {target.format ? 'Cut Line' : 'Crop Edge'}</div>
+          {target.format && (
+            <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full border border-dashed border-red-500"></span> Bleed Edge</div>
+          )}
+          {softProof && (
+            <div className="flex items-center gap-2 text-neutral-400"><Palette className="w-2.5 h-2.5" /> Proof: {proofProfile.label}</div>
+          )}
+          {softProof && gamutWarning && (
+            <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-[#ff00ff]"></span> Out of Gamut</div>
+          )}
+          {(target.format ? guides.safeMarginMm : guides.safeMarginPercent) > 0 && (
+            <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full border border-dashed border-green-500"></span> Safe Zone</div>
+          )}
+          {perspective && (
+            <div className="flex items-center gap-2 text-neutral-400"><Scan className="w-2.5 h-2.5" /> Perspective corrected</div>
+          )}
         </div>
+        )}
 
         {/* Floating Alignment Toolbar */}
-        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-neutral-900/90 backdrop-blur-md shadow-xl rounded-full px-2 py-1.5 flex items-center gap-1 border border-neutral-700" onMouseDown={e => e.stopPropagation()} onTouchStart={e => e.stopPropagation()}>
-            <button onClick={handleFit} title="Fit Inside" className="p-2 hover:bg-neutral-800 text-neutral-400 hover:text-brand-400 rounded-full transition-colors">
+        {isPerspectiveMode ? (
+        <div role="toolbar" aria-label="Perspective correction" className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-neutral-900/90 backdrop-blur-md shadow-xl rounded-full px-2 py-1.5 flex items-center gap-1 border border-neutral-700" onMouseDown={e => e.stopPropagation()} onTouchStart={e => e.stopPropagation()} onKeyDown={e => e.stopPropagation()}>
+            <button onClick={resetPerspective} title="Remove Correction" aria-label="Remove Correction" className="p-2 hover:bg-neutral-800 text-neutral-400 hover:text-brand-400 rounded-full transition-colors">
+                <Undo2 className="w-4 h-4" />
+            </button>
+            <div className="w-px h-4 bg-neutral-700 mx-1"></div>
+            <button onClick={() => setIsPerspectiveMode(false)} title="Done" className="px-3 py-1.5 flex items-center gap-1.5 text-xs font-medium hover:bg-neutral-800 text-brand-400 rounded-full transition-colors">
+                <Check className="w-4 h-4" /> Done
+            </button>
+        </div>
+        ) : (
+        <div role="toolbar" aria-label="Crop tools" className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-neutral-900/90 backdrop-blur-md shadow-xl rounded-full px-2 py-1.5 flex items-center gap-1 border border-neutral-700" onMouseDown={e => e.stopPropagation()} onTouchStart={e => e.stopPropagation()} onKeyDown={e => e.stopPropagation()}>
+            <button
+                onClick={() => setIsPerspectiveMode(true)}
+                title="Perspective Correction"
+                aria-label="Perspective Correction"
+                aria-pressed={!!perspective}
+                className={`p-2 hover:bg-neutral-800 rounded-full transition-colors ${perspective ? 'text-brand-400' : 'text-neutral-400 hover:text-brand-400'}`}
+            >
+                <Scan className="w-4 h-4" />
+            </button>
+            <div className="w-px h-4 bg-neutral-700 mx-1"></div>
+            <button onClick={handleFit} title="Fit Inside" aria-label="Fit Inside" className="p-2 hover:bg-neutral-800 text-neutral-400 hover:text-brand-400 rounded-full transition-colors">
                 <Minimize className="w-4 h-4" />
             </button>
-            <button onClick={handleFill} title="Fill Frame" className="p-2 hover:bg-neutral-800 text-neutral-400 hover:text-brand-400 rounded-full transition-colors">
+            <button onClick={handleFill} title="Fill Frame" aria-label="Fill Frame" className="p-2 hover:bg-neutral-800 text-neutral-400 hover:text-brand-400 rounded-full transition-colors">
                 <Maximize className="w-4 h-4" />
             </button>
             <div className="w-px h-4 bg-neutral-700 mx-1"></div>
-            <button onClick={handleCenter} title="Center" className="p-2 hover:bg-neutral-800 text-neutral-400 hover:text-brand-400 rounded-full transition-colors">
+            <button onClick={handleCenter} title="Center" aria-label="Center" className="p-2 hover:bg-neutral-800 text-neutral-400 hover:text-brand-400 rounded-full transition-colors">
                 <AlignHorizontalJustifyCenter className="w-4 h-4" />
             </button>
+            <GuidesPanel settings={guides} onChange={onGuidesChange} isPrint={!!target.format} />
+            <div className="w-px h-4 bg-neutral-700 mx-1"></div>
+            <button onClick={() => handleRotate(false)} title="Rotate Left" aria-label="Rotate Left" className="p-2 hover:bg-neutral-800 text-neutral-400 hover:text-brand-400 rounded-full transition-colors">
+                <RotateCcw className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleRotate(true)} title="Rotate Right" aria-label="Rotate Right" className="p-2 hover:bg-neutral-800 text-neutral-400 hover:text-brand-400 rounded-full transition-colors">
+                <RotateCw className="w-4 h-4" />
+            </button>
+            <button
+                onClick={() => handleFlip('horizontal')}
+                title="Flip Horizontal"
+                aria-label="Flip Horizontal"
+                aria-pressed={crop.flipH}
+                className={`p-2 hover:bg-neutral-800 rounded-full transition-colors ${crop.flipH ? 'text-brand-400' : 'text-neutral-400 hover:text-brand-400'}`}
+            >
+                <FlipHorizontal2 className="w-4 h-4" />
+            </button>
+            <button
+                onClick={() => handleFlip('vertical')}
+                title="Flip Vertical"
+                aria-label="Flip Vertical"
+                aria-pressed={crop.flipV}
+                className={`p-2 hover:bg-neutral-800 rounded-full transition-colors ${crop.flipV ? 'text-brand-400' : 'text-neutral-400 hover:text-brand-400'}`}
+            >
+                <FlipVertical2 className="w-4 h-4" />
+            </button>
+            <div className="w-px h-4 bg-neutral-700 mx-1"></div>
+            <button
+                onClick={() => setSoftProof(!softProof)}
+                title={`Soft Proof (${proofProfile.label})`}
+                aria-label={`Soft Proof (${proofProfile.label})`}
+                aria-pressed={softProof}
+                className={`p-2 hover:bg-neutral-800 rounded-full transition-colors ${softProof ? 'text-brand-400' : 'text-neutral-400 hover:text-brand-400'}`}
+            >
+                <Palette className="w-4 h-4" />
+            </button>
+            <button
+                onClick={() => setGamutWarning(!gamutWarning)}
+                disabled={!softProof}
+                title="Highlight Out-of-Gamut Colours"
+                aria-label="Highlight Out-of-Gamut Colours"
+                aria-pressed={gamutWarning && softProof}
+                className={`p-2 hover:bg-neutral-800 rounded-full transition-colors disabled:opacity-40 ${gamutWarning && softProof ? 'text-brand-400' : 'text-neutral-400 hover:text-brand-400'}`}
+            >
+                <TriangleAlert className="w-4 h-4" />
+            </button>
         </div>
+        )}
       </div>
 
       {/* Controls */}
-      <div className="flex items-center gap-4 bg-neutral-900 p-4 rounded-xl shadow-sm border border-neutral-800">
-        <div className="flex items-center gap-2 text-neutral-400">
-          <ZoomIn className="w-5 h-5" />
-          <span className="text-sm font-medium">Zoom</span>
+      <div className="flex flex-col gap-3 bg-neutral-900 p-4 rounded-xl shadow-sm border border-neutral-800">
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2 text-neutral-400 w-28">
+            <ZoomIn className="w-5 h-5" />
+            <span className="text-sm font-medium">Zoom</span>
+          </div>
+          <input 
+            type="range" 
+            min={MIN_ZOOM} 
+            max={MAX_ZOOM} 
+            step="0.01" 
+            value={crop.scale} 
+            onChange={handleZoom} 
+            aria-label="Zoom"
+            aria-valuetext={`${Math.round(crop.scale * 100)}%`}
+            className="flex-1 h-2 bg-neutral-800 rounded-lg appearance-none cursor-pointer accent-brand-500 hover:accent-brand-400"
+          />
+          <div className="text-sm font-mono text-neutral-400 w-14 text-right">
+            {Math.round(crop.scale * 100)}%
+          </div>
         </div>
-        <input 
-          type="range" 
-          min="0.1" 
-          max="3.0" 
-          step="0.01" 
-          value={crop.scale} 
-          onChange={handleZoom} 
-          className="flex-1 h-2 bg-neutral-800 rounded-lg appearance-none cursor-pointer accent-brand-500 hover:accent-brand-400"
-        />
-        <div className="text-sm font-mono text-neutral-400 w-12 text-right">
-          {Math.round(crop.scale * 100)}%
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2 text-neutral-400 w-28">
+            <Ruler className="w-5 h-5" />
+            <span className="text-sm font-medium">Straighten</span>
+          </div>
+          <input 
+            type="range" 
+            min={-MAX_STRAIGHTEN_DEG} 
+            max={MAX_STRAIGHTEN_DEG} 
+            step="0.1" 
+            value={crop.straighten} 
+            onChange={handleStraighten} 
+            onPointerDown={() => setIsStraightening(true)}
+            onPointerUp={() => setIsStraightening(false)}
+            onFocus={() => setIsStraightening(true)}
+            onBlur={() => setIsStraightening(false)}
+            onDoubleClick={() => commitCrop({ ...crop, straighten: 0 })}
+            title="Double-click to reset"
+            aria-label="Straighten"
+            aria-valuetext={`${crop.straighten.toFixed(1)} degrees`}
+            className="flex-1 h-2 bg-neutral-800 rounded-lg appearance-none cursor-pointer accent-brand-500 hover:accent-brand-400"
+          />
+          <div className="text-sm font-mono text-neutral-400 w-14 text-right">
+            {crop.straighten.toFixed(1)}°
+          </div>
         </div>
       </div>
+
+      {dpiReadout.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 -mt-2" title={`Effective print resolution (target ${TARGET_DPI} dpi, minimum ${MIN_EFFECTIVE_DPI} dpi)`}>
+          {dpiReadout.map(({ format, dpi }) => (
+            <span
+              key={format.id}
+              className={`flex items-center gap-1 text-[10px] font-mono px-2 py-1 rounded border ${
+                dpi >= MIN_EFFECTIVE_DPI
+                ? 'text-neutral-400 border-neutral-800 bg-neutral-900'
+                : 'text-amber-400 border-amber-500/30 bg-amber-500/10'
+              }`}
+            >
+              {dpi < MIN_EFFECTIVE_DPI && <TriangleAlert className="w-3 h-3" />}
+              {format.label}: {dpi} dpi
+            </span>
+          ))}
+        </div>
+      )}
       
       <div className="flex items-center justify-center gap-2 text-xs text-neutral-500">
         <Move className="w-3 h-3" />
-        <span>Drag image to position</span>
+        <span id="crop-editor-help">
+          {isPerspectiveMode
+            ? 'Drag the corners, or press 1-4 to pick a corner and move it with the arrow keys. Enter when done.'
+            : `Drag or use the arrow keys to position. Scroll, pinch or +/- to zoom. Hold Shift for bigger steps.${guides.snap ? ' Hold Alt while dragging to turn off snapping.' : ''}`}
+        </span>
+      </div>
+      <div className="sr-only" aria-live="polite">
+        {isPerspectiveMode
+          ? `${CORNER_LABELS[selectedCorner]} corner selected`
+          : `Zoom ${Math.round(crop.scale * 100)}%`}
       </div>
     </div>
   );
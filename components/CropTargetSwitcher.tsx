@@ -0,0 +1,49 @@
+import React from 'react';
+import { Link2, Link2Off } from 'lucide-react';
+import { CropTarget } from '../services/cropTargets';
+
+interface CropTargetSwitcherProps {
+  targets: CropTarget[];
+  activeKey: string;
+  onSelect: (key: string) => void;
+  linked: boolean;
+  onToggleLinked: () => void;
+}
+
+export const CropTargetSwitcher: React.FC<CropTargetSwitcherProps> = ({ targets, activeKey, onSelect, linked, onToggleLinked }) => (
+  <div className="flex items-center gap-2">
+    <div className="flex-1 flex items-center gap-1 overflow-x-auto" role="tablist" aria-label="Crop target">
+      {targets.map(target => (
+        <button
+          key={target.key}
+          role="tab"
+          aria-selected={target.key === activeKey}
+          onClick={() => onSelect(target.key)}
+          className={`shrink-0 px-2.5 py-1 text-xs font-medium rounded-md border transition-colors ${
+            target.key === activeKey
+              ? 'bg-brand-500/15 border-brand-500/50 text-brand-300'
+              : 'bg-neutral-900 border-neutral-800 text-neutral-400 hover:text-neutral-200'
+          }`}
+        >
+          {target.label}
+          <span className="ml-1.5 text-[10px] text-neutral-500">{target.format ? 'PDF' : 'Web'}</span>
+        </button>
+      ))}
+    </div>
+    {targets.length > 1 && (
+      <button
+        onClick={onToggleLinked}
+        aria-pressed={linked}
+        title={linked ? 'All targets share one crop. Click to crop each target separately.' : 'Each target has its own crop. Click to use one crop for all.'}
+        className={`shrink-0 flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md border transition-colors ${
+          linked
+            ? 'bg-neutral-900 border-neutral-800 text-neutral-300 hover:text-white'
+            : 'bg-amber-500/10 border-amber-500/30 text-amber-300 hover:text-amber-200'
+        }`}
+      >
+        {linked ? <Link2 className="w-3.5 h-3.5" /> : <Link2Off className="w-3.5 h-3.5" />}
+        {linked ? 'Linked' : 'Independent'}
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,116 @@
+import React from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import { ChromaSubsampling, EncoderSettings, ImageFormat } from '../types';
+import { IMAGE_ENCODERS, describeEncoder } from '../services/encoders';
+
+interface EncoderSettingsPickerProps {
+  settings: EncoderSettings;
+  onChange: (settings: EncoderSettings) => void;
+  allowResize?: boolean; // Whether a byte budget may also shrink the output
+}
+
+// Page-weight budget suggested when the max file size mode is switched on
+const DEFAULT_BUDGET_KB = 200;
+
+const segmentClass = (active: boolean) =>
+  `px-2 py-1 text-[10px] font-medium rounded-md transition-colors ${
+    active ? 'bg-neutral-700 text-white' : 'text-neutral-500 hover:text-neutral-300'
+  }`;
+
+export const EncoderSettingsPicker: React.FC<EncoderSettingsPickerProps> = ({ settings, onChange, allowResize = false }) => {
+  const encoder = IMAGE_ENCODERS[settings.format];
+  const update = (changes: Partial<EncoderSettings>) => onChange({ ...settings, ...changes });
+  const showQuality = encoder.lossy && !(encoder.losslessOption && settings.lossless);
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-neutral-400">Format</span>
+        <select
+          value={settings.format}
+          onChange={(e) => update({ format: e.target.value as ImageFormat })}
+          className="bg-neutral-950 border border-neutral-700 text-neutral-100 text-xs rounded px-2 py-1 focus:border-brand-500 outline-none"
+        >
+          {(Object.keys(IMAGE_ENCODERS) as ImageFormat[]).map(format => (
+            <option key={format} value={format}>{IMAGE_ENCODERS[format].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {showQuality && (
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <span className="text-xs text-neutral-400">Quality</span>
+            <span className="text-xs font-mono font-medium text-brand-400">{settings.quality}</span>
+          </div>
+          <input
+            type="range"
+            min="1"
+            max="100"
+            value={settings.quality}
+            onChange={(e) => update({ quality: parseInt(e.target.value) })}
+            className="w-full h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+          />
+        </div>
+      )}
+
+      {encoder.losslessOption && (
+        <button onClick={() => update({ lossless: !settings.lossless })} className="flex items-center gap-2 text-xs text-neutral-300">
+          {settings.lossless ? <CheckSquare className="w-4 h-4 text-brand-500" /> : <Square className="w-4 h-4 text-neutral-600" />}
+          Lossless
+        </button>
+      )}
+
+      {encoder.chromaOption && showQuality && (
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-neutral-400">Chroma</span>
+          <div className="flex bg-neutral-950 rounded-lg border border-neutral-800 p-0.5">
+            {(['420', '444'] as ChromaSubsampling[]).map(chroma => (
+              <button key={chroma} onClick={() => update({ chroma })} className={segmentClass(settings.chroma === chroma)}>
+                {chroma === '444' ? '4:4:4' : '4:2:0'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {encoder.progressiveOption && (
+        <button onClick={() => update({ progressive: !settings.progressive })} className="flex items-center gap-2 text-xs text-neutral-300">
+          {settings.progressive ? <CheckSquare className="w-4 h-4 text-brand-500" /> : <Square className="w-4 h-4 text-neutral-600" />}
+          Progressive
+        </button>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => update({ maxSizeKb: settings.maxSizeKb ? null : DEFAULT_BUDGET_KB })}
+          className="flex items-center gap-2 text-xs text-neutral-300"
+        >
+          {settings.maxSizeKb ? <CheckSquare className="w-4 h-4 text-brand-500" /> : <Square className="w-4 h-4 text-neutral-600" />}
+          Max file size
+        </button>
+        {settings.maxSizeKb !== null && (
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min="1"
+              value={settings.maxSizeKb}
+              onChange={(e) => update({ maxSizeKb: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="w-16 bg-neutral-950 border border-neutral-700 text-neutral-100 text-xs rounded px-2 py-1 focus:border-brand-500 outline-none text-right"
+            />
+            <span className="text-[10px] text-neutral-500">KB</span>
+          </div>
+        )}
+      </div>
+
+      <div className="text-[10px] text-neutral-500">
+        Output: {describeEncoder(settings)}
+        {settings.maxSizeKb !== null && (
+          allowResize
+            ? `, quality then size lowered to fit ${settings.maxSizeKb} KB`
+            : `, quality lowered to fit ${settings.maxSizeKb} KB`
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { Star, Trash2, Plus, Upload, Download } from 'lucide-react';
+import { ExportProfile, NAMING_TOKENS } from '../services/exportProfiles';
+
+interface ExportProfilePickerProps {
+  profiles: ExportProfile[];
+  defaultProfileId: string | null;
+  suggestedTemplate: string; // Prefilled naming template when saving
+  onApply: (profile: ExportProfile) => void;
+  onSave: (name: string, namingTemplate: string) => string; // Returns the new profile's id
+  onDelete: (profile: ExportProfile) => void;
+  onSetDefault: (id: string | null) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+export const ExportProfilePicker: React.FC<ExportProfilePickerProps> = ({
+  profiles, defaultProfileId, suggestedTemplate, onApply, onSave, onDelete, onSetDefault, onImport, onExport
+}) => {
+  const [selectedId, setSelectedId] = useState<string>(defaultProfileId || '');
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [template, setTemplate] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const selected = profiles.find(p => p.id === selectedId) || null;
+  const inputClass = "w-full bg-neutral-950 border border-neutral-700 text-neutral-100 text-xs rounded px-2 py-1.5 focus:border-brand-500 outline-none";
+  const iconButtonClass = "p-1.5 rounded border border-neutral-800 text-neutral-500 disabled:opacity-40 disabled:pointer-events-none transition-colors";
+
+  const startAdding = () => {
+    setTemplate(suggestedTemplate);
+    setIsAdding(true);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    setSelectedId(onSave(name, template));
+    setName('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1.5">
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          aria-label="Export profile"
+          className={inputClass}
+        >
+          <option value="">{profiles.length > 0 ? 'Choose a profile...' : 'No saved profiles'}</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}{profile.id === defaultProfileId ? ' (default)' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => selected && onApply(selected)}
+          disabled={!selected}
+          className="px-3 py-1 bg-neutral-700 hover:bg-neutral-600 text-white text-xs font-medium rounded disabled:opacity-50 transition-colors"
+        >
+          Apply
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <button
+          onClick={() => selected && onSetDefault(selected.id === defaultProfileId ? null : selected.id)}
+          disabled={!selected}
+          aria-pressed={!!selected && selected.id === defaultProfileId}
+          title={selected && selected.id === defaultProfileId ? 'Stop using as default for new uploads' : 'Use for new uploads'}
+          className={`${iconButtonClass} ${selected && selected.id === defaultProfileId ? 'text-amber-400 border-amber-500/30' : 'hover:text-amber-400'}`}
+        >
+          <Star className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => {
+            if (!selected) return;
+            onDelete(selected);
+            setSelectedId('');
+          }}
+          disabled={!selected}
+          title="Delete profile"
+          aria-label="Delete profile"
+          className={`${iconButtonClass} hover:text-red-400`}
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+        <div className="flex-1" />
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+        <button onClick={() => importRef.current?.click()} title="Import profiles (JSON)" aria-label="Import profiles" className={`${iconButtonClass} hover:text-neutral-200`}>
+          <Upload className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={onExport} disabled={profiles.length === 0} title="Export profiles (JSON)" aria-label="Export profiles" className={`${iconButtonClass} hover:text-neutral-200`}>
+          <Download className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {isAdding ? (
+        <div className="p-3 bg-neutral-800/50 rounded-lg border border-neutral-800 space-y-2">
+          <label className="block text-[10px] text-neutral-500">
+            Profile name
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Gallery prints" className={inputClass} />
+          </label>
+          <label className="block text-[10px] text-neutral-500">
+            Naming template
+            <input type="text" value={template} onChange={(e) => setTemplate(e.target.value)} placeholder="{name}" className={inputClass} />
+          </label>
+          <p className="text-[10px] text-neutral-500">
+            {NAMING_TOKENS.join(' and ')} are replaced by the original name and the image number. Leave empty to keep names.
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsAdding(false)}
+              className="px-3 py-1 text-neutral-400 hover:text-white text-xs font-medium rounded transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!name.trim()}
+              className="px-3 py-1 bg-neutral-700 hover:bg-neutral-600 text-white text-xs font-medium rounded disabled:opacity-50 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={startAdding} className="text-[10px] text-brand-400 hover:text-brand-300 flex items-center gap-1">
+          <Plus className="w-3 h-3" /> Save current settings as profile
+        </button>
+      )}
+    </div>
+  );
+};
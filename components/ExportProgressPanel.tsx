@@ -0,0 +1,70 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ExportProgress, ExportStage } from '../types';
+import { Button } from './Button';
+
+export interface ExportProgressItem {
+  name: string;
+  progress: ExportProgress;
+}
+
+interface ExportProgressPanelProps {
+  items: ExportProgressItem[];
+  onCancel: () => void;
+  isCancelling: boolean;
+}
+
+export const STAGE_LABELS: Record<ExportStage, string> = {
+  queued: 'Waiting',
+  decode: 'Decoding',
+  render: 'Rendering',
+  encode: 'Encoding',
+  pdf: 'Assembling PDF',
+  done: 'Done',
+  cancelled: 'Cancelled',
+  error: 'Failed',
+};
+
+const ProgressBar = ({ fraction, className }: { fraction: number; className?: string }) => (
+  <div className={`h-1.5 bg-neutral-800 rounded-full overflow-hidden ${className || ''}`}>
+    <div
+      className="h-full bg-gradient-orange transition-[width] duration-300"
+      style={{ width: `${Math.round(Math.min(1, Math.max(0, fraction)) * 100)}%` }}
+    />
+  </div>
+);
+
+export const ExportProgressPanel: React.FC<ExportProgressPanelProps> = ({ items, onCancel, isCancelling }) => {
+  const overall = items.length > 0 ? items.reduce((sum, item) => sum + item.progress.fraction, 0) / items.length : 0;
+  const finished = items.filter(item => item.progress.stage === 'done').length;
+
+  return (
+    <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-4 space-y-3" role="status" aria-live="polite">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm text-neutral-200 font-medium">
+          {isCancelling ? 'Cancelling…' : `Generating… ${Math.round(overall * 100)}%`}
+          <span className="text-neutral-500 text-xs ml-2">{finished} / {items.length} files</span>
+        </div>
+        <Button variant="secondary" size="sm" onClick={onCancel} disabled={isCancelling} className="h-8 text-xs gap-1.5 px-3">
+          <X className="w-3.5 h-3.5" /> Cancel
+        </Button>
+      </div>
+      <ProgressBar fraction={overall} />
+
+      <div className="space-y-2 max-h-48 overflow-y-auto pr-1">
+        {items.map((item, idx) => (
+          <div key={idx}>
+            <div className="flex items-center justify-between text-[11px]">
+              <span className="text-neutral-300 truncate mr-2">{item.name}</span>
+              <span className="text-neutral-500 whitespace-nowrap">
+                {STAGE_LABELS[item.progress.stage]}
+                {item.progress.output && item.progress.stage !== 'done' ? ` · ${item.progress.output}` : ''}
+              </span>
+            </div>
+            <ProgressBar fraction={item.progress.fraction} className="mt-1" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Grid3x3, CheckSquare, Square, Plus, X } from 'lucide-react';
+import { GuideSettings, createGuide } from '../services/guides';
+
+interface GuidesPanelProps {
+  settings: GuideSettings;
+  onChange: (settings: GuideSettings) => void;
+  isPrint: boolean; // Print targets measure the safe zone in mm, web targets in %
+}
+
+export const GuidesPanel: React.FC<GuidesPanelProps> = ({ settings, onChange, isPrint }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const update = (changes: Partial<GuideSettings>) => onChange({ ...settings, ...changes });
+  const inputClass = "w-full bg-neutral-950 border border-neutral-700 text-neutral-100 text-xs rounded px-2 py-1.5 focus:border-brand-500 outline-none";
+
+  const toggles: { key: 'thirds' | 'centerLines' | 'snap'; label: string }[] = [
+    { key: 'thirds', label: 'Rule of thirds' },
+    { key: 'centerLines', label: 'Centre lines' },
+    { key: 'snap', label: 'Snap to edges & guides' },
+  ];
+
+  const setGuidePosition = (id: string, percent: number) =>
+    update({ guides: settings.guides.map(g => (g.id === id ? { ...g, position: Math.min(100, Math.max(0, percent)) / 100 } : g)) });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Guides"
+        aria-label="Guides"
+        aria-expanded={isOpen}
+        className={`p-2 hover:bg-neutral-800 rounded-full transition-colors ${isOpen ? 'text-brand-400' : 'text-neutral-400 hover:text-brand-400'}`}
+      >
+        <Grid3x3 className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-12 left-1/2 -translate-x-1/2 z-20 w-60 p-4 space-y-4 bg-neutral-900 border border-neutral-700 rounded-xl shadow-2xl">
+          <label className="block text-[10px] text-neutral-500">
+            {isPrint ? 'Safe zone inside trim (mm)' : 'Safe zone (% of shorter side)'}
+            <input
+              type="number"
+              min="0"
+              step={isPrint ? '1' : '0.5'}
+              value={isPrint ? settings.safeMarginMm : settings.safeMarginPercent}
+              onChange={(e) => {
+                const value = Math.max(0, parseFloat(e.target.value) || 0);
+                update(isPrint ? { safeMarginMm: value } : { safeMarginPercent: value });
+              }}
+              className={inputClass}
+            />
+          </label>
+
+          <div className="space-y-2">
+            {toggles.map(({ key, label }) => (
+              <button
+                key={key}
+                role="checkbox"
+                aria-checked={settings[key]}
+                onClick={() => update({ [key]: !settings[key] })}
+                className="flex items-center gap-2 text-xs text-neutral-300 hover:text-white"
+              >
+                <span className={settings[key] ? 'text-brand-500' : 'text-neutral-600'}>
+                  {settings[key] ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+                </span>
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1.5">
+              <span className="text-xs text-neutral-400">Guides</span>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => update({ guides: [...settings.guides, createGuide('vertical')] })}
+                  className="flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] text-neutral-400 hover:text-brand-400 border border-neutral-800 rounded"
+                >
+                  <Plus className="w-3 h-3" /> Vertical
+                </button>
+                <button
+                  onClick={() => update({ guides: [...settings.guides, createGuide('horizontal')] })}
+                  className="flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] text-neutral-400 hover:text-brand-400 border border-neutral-800 rounded"
+                >
+                  <Plus className="w-3 h-3" /> Horizontal
+                </button>
+              </div>
+            </div>
+            {settings.guides.length === 0 ? (
+              <p className="text-[10px] text-neutral-500">No guides. Added guides can also be dragged on the canvas; drag one off the frame to remove it.</p>
+            ) : (
+              <div className="space-y-1">
+                {settings.guides.map(guide => (
+                  <div key={guide.id} className="flex items-center gap-2">
+                    <span className="w-16 text-[10px] text-neutral-500 capitalize">{guide.axis}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={parseFloat((guide.position * 100).toFixed(2))}
+                      onChange={(e) => setGuidePosition(guide.id, parseFloat(e.target.value) || 0)}
+                      aria-label={`${guide.axis} guide position (%)`}
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => update({ guides: settings.guides.filter(g => g.id !== guide.id) })}
+                      aria-label="Remove guide"
+                      className="p-1 text-neutral-500 hover:text-red-400"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, CheckSquare, Square } from 'lucide-react';
+import { PaperFormat } from '../types';
+import { formatTrimSize } from '../services/paperFormats';
+
+interface PaperFormatPickerProps {
+  formats: PaperFormat[];
+  selected: PaperFormat[];
+  onToggle: (format: PaperFormat) => void;
+  onAddCustom: (label: string, widthCm: number, heightCm: number, bleedMm: number) => void;
+  onRemoveCustom: (format: PaperFormat) => void;
+}
+
+export const PaperFormatPicker: React.FC<PaperFormatPickerProps> = ({ formats, selected, onToggle, onAddCustom, onRemoveCustom }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [label, setLabel] = useState('');
+  const [widthCm, setWidthCm] = useState('');
+  const [heightCm, setHeightCm] = useState('');
+  const [bleedMm, setBleedMm] = useState('3');
+
+  const width = parseFloat(widthCm);
+  const height = parseFloat(heightCm);
+  const bleed = parseFloat(bleedMm);
+  const isValid = width > 0 && height > 0 && bleed >= 0;
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    onAddCustom(label, width, height, bleed);
+    setLabel('');
+    setWidthCm('');
+    setHeightCm('');
+    setIsAdding(false);
+  };
+
+  const inputClass = "w-full bg-neutral-950 border border-neutral-700 text-neutral-100 text-xs rounded px-2 py-1.5 focus:border-brand-500 outline-none";
+
+  return (
+    <div className="space-y-1">
+      {formats.map(format => {
+        const isSelected = selected.some(f => f.id === format.id);
+        return (
+          <div
+            key={format.id}
+            className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-neutral-800 cursor-pointer group"
+            onClick={() => onToggle(format)}
+          >
+            <div className={isSelected ? 'text-brand-500' : 'text-neutral-600'}>
+              {isSelected ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+            </div>
+            <span className="text-xs font-medium text-neutral-200 flex-1">{format.label}</span>
+            <span className="text-[10px] text-neutral-500 font-mono">{formatTrimSize(format)}</span>
+            {format.custom && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemoveCustom(format);
+                }}
+                title="Remove custom size"
+                className="text-neutral-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {isAdding ? (
+        <div className="mt-2 p-2 bg-neutral-800/50 rounded-lg border border-neutral-800 space-y-2">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className={inputClass}
+            placeholder="Name, e.g. Client Poster"
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-[10px] text-neutral-500">
+              Width (cm)
+              <input type="number" min="1" step="0.1" value={widthCm} onChange={(e) => setWidthCm(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-[10px] text-neutral-500">
+              Height (cm)
+              <input type="number" min="1" step="0.1" value={heightCm} onChange={(e) => setHeightCm(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-[10px] text-neutral-500">
+              Bleed (mm)
+              <input type="number" min="0" step="0.5" value={bleedMm} onChange={(e) => setBleedMm(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsAdding(false)}
+              className="px-3 py-1 text-neutral-400 hover:text-white text-xs font-medium rounded transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={!isValid}
+              className="px-3 py-1 bg-neutral-700 hover:bg-neutral-600 text-white text-xs font-medium rounded disabled:opacity-50 transition-colors"
+            >
+              Add Size
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="text-[10px] text-brand-400 mt-2 hover:text-brand-300 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add custom size
+        </button>
+      )}
+    </div>
+  );
+};
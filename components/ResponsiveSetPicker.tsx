@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { ImageFormat, ResponsiveSetOptions } from '../types';
+import { IMAGE_ENCODERS } from '../services/encoders';
+import { RESPONSIVE_FORMATS, RESPONSIVE_WIDTH_PRESETS } from '../services/responsiveSet';
+
+interface ResponsiveSetPickerProps {
+  options: ResponsiveSetOptions;
+  onChange: (options: ResponsiveSetOptions) => void;
+  originalWidth?: number; // Widths above this are skipped at export
+}
+
+const chipClass = (active: boolean, dimmed = false) =>
+  `px-2 py-1 text-[10px] font-mono rounded-md border transition-colors ${
+    active
+      ? 'bg-brand-500/15 border-brand-500/50 text-brand-300'
+      : 'bg-neutral-950 border-neutral-800 text-neutral-500 hover:text-neutral-300'
+  } ${dimmed ? 'opacity-50' : ''}`;
+
+export const ResponsiveSetPicker: React.FC<ResponsiveSetPickerProps> = ({ options, onChange, originalWidth }) => {
+  const [customWidth, setCustomWidth] = useState('');
+  const update = (changes: Partial<ResponsiveSetOptions>) => onChange({ ...options, ...changes });
+
+  const toggleWidth = (width: number) =>
+    update({
+      widths: options.widths.includes(width)
+        ? options.widths.filter(w => w !== width)
+        : [...options.widths, width].sort((a, b) => a - b)
+    });
+
+  const toggleFormat = (format: ImageFormat) =>
+    update({
+      formats: options.formats.includes(format)
+        ? options.formats.filter(f => f !== format)
+        : RESPONSIVE_FORMATS.filter(f => f === format || options.formats.includes(f))
+    });
+
+  const addCustomWidth = () => {
+    const width = parseInt(customWidth);
+    if (!(width > 0) || options.widths.includes(width)) return;
+    toggleWidth(width);
+    setCustomWidth('');
+  };
+
+  const widths = Array.from(new Set([...RESPONSIVE_WIDTH_PRESETS, ...options.widths])).sort((a, b) => a - b);
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <span className="text-xs text-neutral-400">Widths (px)</span>
+        <div className="flex flex-wrap gap-1 mt-1.5">
+          {widths.map(width => (
+            <button
+              key={width}
+              onClick={() => toggleWidth(width)}
+              className={chipClass(options.widths.includes(width), !!originalWidth && width > originalWidth)}
+              title={originalWidth && width > originalWidth ? 'Larger than the original, skipped' : undefined}
+            >
+              {width}
+            </button>
+          ))}
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min="1"
+              placeholder="Custom"
+              value={customWidth}
+              onChange={(e) => setCustomWidth(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addCustomWidth()}
+              className="w-16 bg-neutral-950 border border-neutral-700 text-neutral-100 text-[10px] rounded px-1.5 py-1 focus:border-brand-500 outline-none"
+            />
+            <button onClick={addCustomWidth} className="text-brand-400 hover:text-brand-300" aria-label="Add width">
+              <Plus className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <span className="text-xs text-neutral-400">Formats</span>
+        <div className="flex flex-wrap gap-1 mt-1.5">
+          {RESPONSIVE_FORMATS.map(format => (
+            <button key={format} onClick={() => toggleFormat(format)} className={chipClass(options.formats.includes(format))}>
+              {IMAGE_ENCODERS[format].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <span className="text-xs text-neutral-400">Quality</span>
+          <span className="text-xs font-mono font-medium text-brand-400">{options.quality}</span>
+        </div>
+        <input
+          type="range"
+          min="1"
+          max="100"
+          value={options.quality}
+          onChange={(e) => update({ quality: parseInt(e.target.value) })}
+          className="w-full h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+        />
+      </div>
+
+      <div className="text-[10px] text-neutral-500">
+        {options.widths.length} widths x {options.formats.length} formats, plus a &lt;picture&gt; snippet and JSON manifest
+      </div>
+    </div>
+  );
+};
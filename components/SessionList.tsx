@@ -0,0 +1,71 @@
+import React from 'react';
+import { History, Trash2, Play } from 'lucide-react';
+import { Button } from './Button';
+import { SessionSummary } from '../services/sessionStore';
+
+interface SessionListProps {
+  sessions: SessionSummary[]; // Most recent first
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+  resumingId: string | null;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const SessionList: React.FC<SessionListProps> = ({ sessions, onResume, onDelete, resumingId }) => {
+  if (sessions.length === 0) return null;
+  const latest = sessions[0];
+
+  return (
+    <div className="mb-8 space-y-3">
+      <div className="flex items-center justify-between gap-4 p-4 rounded-xl border border-brand-500/30 bg-brand-500/5">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-neutral-100 flex items-center gap-2">
+            <History className="w-4 h-4 text-brand-400" /> Resume where you left off?
+          </p>
+          <p className="text-xs text-neutral-400 truncate mt-0.5">
+            {latest.title} · edited {formatDate(latest.updatedAt)}
+          </p>
+        </div>
+        <Button size="sm" onClick={() => onResume(latest.id)} isLoading={resumingId === latest.id} disabled={resumingId !== null} className="shrink-0 gap-1.5">
+          <Play className="w-3.5 h-3.5" /> Resume
+        </Button>
+      </div>
+
+      <details className="rounded-xl border border-neutral-800 bg-neutral-900/50">
+        <summary className="px-4 py-2.5 text-xs font-medium text-neutral-400 cursor-pointer hover:text-neutral-200">
+          Saved sessions ({sessions.length})
+        </summary>
+        <ul className="divide-y divide-neutral-800 border-t border-neutral-800">
+          {sessions.map(session => (
+            <li key={session.id} className="flex items-center gap-3 px-4 py-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-neutral-200 truncate">{session.title}</p>
+                <p className="text-[10px] text-neutral-500">
+                  {session.fileCount} {session.fileCount === 1 ? 'image' : 'images'} · {formatDate(session.updatedAt)}
+                </p>
+              </div>
+              <button
+                onClick={() => onResume(session.id)}
+                disabled={resumingId !== null}
+                className="px-2 py-1 text-[10px] font-medium text-brand-400 hover:text-brand-300 disabled:opacity-50"
+              >
+                Resume
+              </button>
+              <button
+                onClick={() => onDelete(session.id)}
+                disabled={resumingId === session.id}
+                aria-label={`Delete session ${session.title}`}
+                title="Delete session"
+                className="p-1 text-neutral-500 hover:text-red-400 disabled:opacity-50"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, CheckSquare, Square } from 'lucide-react';
+import { WebPreset } from '../types';
+import { formatPresetSize } from '../services/webPresets';
+import { MAX_CANVAS_SIDE } from '../services/canvasUtils';
+
+interface WebPresetPickerProps {
+  presets: WebPreset[];
+  selected: WebPreset[];
+  onToggle: (preset: WebPreset) => void;
+  onAddCustom: (label: string, widthPx: number, heightPx: number) => void;
+  onRemoveCustom: (preset: WebPreset) => void;
+}
+
+export const WebPresetPicker: React.FC<WebPresetPickerProps> = ({ presets, selected, onToggle, onAddCustom, onRemoveCustom }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [label, setLabel] = useState('');
+  const [widthPx, setWidthPx] = useState('');
+  const [heightPx, setHeightPx] = useState('');
+
+  const width = parseInt(widthPx);
+  const height = parseInt(heightPx);
+  // Web crops are rendered in a single canvas
+  const isValid = width > 0 && height > 0 && width <= MAX_CANVAS_SIDE && height <= MAX_CANVAS_SIDE;
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    onAddCustom(label, width, height);
+    setLabel('');
+    setWidthPx('');
+    setHeightPx('');
+    setIsAdding(false);
+  };
+
+  const inputClass = "w-full bg-neutral-950 border border-neutral-700 text-neutral-100 text-xs rounded px-2 py-1.5 focus:border-brand-500 outline-none";
+
+  return (
+    <div className="space-y-1" onClick={(e) => e.stopPropagation()}>
+      {presets.map(preset => {
+        const isSelected = selected.some(p => p.id === preset.id);
+        return (
+          <div
+            key={preset.id}
+            className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-neutral-800 cursor-pointer group"
+            onClick={() => onToggle(preset)}
+          >
+            <div className={isSelected ? 'text-brand-500' : 'text-neutral-600'}>
+              {isSelected ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+            </div>
+            <span className="text-xs font-medium text-neutral-200 flex-1">{preset.label}</span>
+            <span className="text-[10px] text-neutral-500 font-mono">{formatPresetSize(preset)}</span>
+            {preset.custom && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemoveCustom(preset);
+                }}
+                title="Remove custom preset"
+                className="text-neutral-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {isAdding ? (
+        <div className="mt-2 p-2 bg-neutral-800/50 rounded-lg border border-neutral-800 space-y-2">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className={inputClass}
+            placeholder="Name, e.g. Shop Product"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-[10px] text-neutral-500">
+              Width (px)
+              <input type="number" min="1" step="1" value={widthPx} onChange={(e) => setWidthPx(e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-[10px] text-neutral-500">
+              Height (px)
+              <input type="number" min="1" step="1" value={heightPx} onChange={(e) => setHeightPx(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsAdding(false)}
+              className="px-3 py-1 text-neutral-400 hover:text-white text-xs font-medium rounded transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={!isValid}
+              className="px-3 py-1 bg-neutral-700 hover:bg-neutral-600 text-white text-xs font-medium rounded disabled:opacity-50 transition-colors"
+            >
+              Add Preset
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="text-[10px] text-brand-400 mt-2 hover:text-brand-300 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add custom preset
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { Dimensions } from '../types';
+
+// The export pipeline runs both on the main thread and inside Web Workers,
+// so it works on these unions instead of DOM-only types.
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type RenderSource = HTMLImageElement | ImageBitmap | RenderCanvas;
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const getSourceSize = (source: RenderSource): Dimensions =>
+  'naturalWidth' in source
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+/**
+ * Creates an OffscreenCanvas where available (always the case in workers),
+ * otherwise a detached DOM canvas.
+ */
+export const createRenderCanvas = (width: number, height: number): RenderCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const get2dContext = (canvas: RenderCanvas): RenderContext | null =>
+  canvas.getContext('2d') as RenderContext | null;
+
+export const canvasToBlob = (canvas: RenderCanvas, type: string, quality?: number): Promise<Blob> => {
+  // HTMLCanvasElement does not exist in workers, so check for the method instead of instanceof
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Blob creation failed'));
+    }, type, quality);
+  });
+};
+
+/**
+ * Drops the pixel buffer right away instead of waiting for GC;
+ * print canvases are hundreds of MB.
+ */
+export const releaseCanvas = (canvas: RenderCanvas) => {
+  canvas.width = 0;
+  canvas.height = 0;
+};
+
+// Safari/iOS refuses canvases above 16.7 MP, other browsers cap each side around 16-32k px
+export const MAX_CANVAS_PIXELS = 16_777_216;
+export const MAX_CANVAS_SIDE = 16_384;
+// Tiles overlap by this many pixels so viewers don't show hairline seams between them
+const TILE_OVERLAP_PX = 2;
+
+export interface CanvasTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Splits an output of any size into tiles that each fit the canvas limits.
+ * Full-width strips are used whenever the width allows it.
+ */
+export const planCanvasTiles = (width: number, height: number): CanvasTile[] => {
+  const columns = Math.ceil(width / (MAX_CANVAS_SIDE - TILE_OVERLAP_PX));
+  const columnWidth = Math.ceil(width / columns);
+  const maxRows = Math.min(MAX_CANVAS_SIDE, Math.floor(MAX_CANVAS_PIXELS / (columnWidth + TILE_OVERLAP_PX)));
+  const rows = Math.ceil(height / (maxRows - TILE_OVERLAP_PX));
+  const rowHeight = Math.ceil(height / rows);
+
+  const tiles: CanvasTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = column * columnWidth;
+      const y = row * rowHeight;
+      tiles.push({
+        x,
+        y,
+        width: Math.min(width, x + columnWidth + TILE_OVERLAP_PX) - x,
+        height: Math.min(height, y + rowHeight + TILE_OVERLAP_PX) - y,
+      });
+    }
+  }
+  return tiles;
+};
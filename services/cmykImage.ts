@@ -0,0 +1,85 @@
+import jsPDF from 'jspdf';
+import { CmykProfile, convertRgbaToCmyk } from './colorManagement';
+import { RenderCanvas, get2dContext } from './canvasUtils';
+
+// Rows converted per getImageData call; bounds peak memory on large canvases
+const STRIP_ROWS = 256;
+
+export interface CmykImage {
+  width: number;
+  height: number;
+  data: string; // Flate-compressed, inverted CMYK as a binary string
+}
+
+// jsPDF hands processors only the raw bytes, so prepared images are looked up by alias
+const pendingImages = new Map<string, CmykImage>();
+let aliasCounter = 0;
+
+// Registers "CMYK" as an addImage format. jsPDF writes DeviceCMYK images with
+// /Decode [1 0 1 0 1 0 1 0] (Adobe convention), which is why the data is stored inverted.
+(jsPDF.API as unknown as Record<string, unknown>).processCMYK = function (
+  _marker: Uint8Array,
+  index: number,
+  alias: string
+) {
+  const image = pendingImages.get(alias);
+  if (!image) throw new Error(`Unknown CMYK image "${alias}"`);
+  pendingImages.delete(alias);
+
+  return {
+    alias,
+    index,
+    data: image.data,
+    width: image.width,
+    height: image.height,
+    colorSpace: 'DeviceCMYK',
+    bitsPerComponent: 8,
+    filter: 'FlateDecode',
+  };
+};
+
+const toBinaryString = (bytes: Uint8Array): string => {
+  const chunks: string[] = [];
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    chunks.push(String.fromCharCode.apply(null, bytes.subarray(i, i + chunkSize) as unknown as number[]));
+  }
+  return chunks.join('');
+};
+
+/**
+ * Separates the canvas into CMYK for the profile and deflates it strip by strip.
+ */
+export const encodeCmykCanvas = async (canvas: RenderCanvas, profile: CmykProfile): Promise<CmykImage> => {
+  const ctx = get2dContext(canvas);
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  const compressed = new Response(stream.readable).arrayBuffer();
+
+  for (let y = 0; y < canvas.height; y += STRIP_ROWS) {
+    const rows = Math.min(STRIP_ROWS, canvas.height - y);
+    const strip = ctx.getImageData(0, y, canvas.width, rows);
+    const cmyk = convertRgbaToCmyk(strip.data, profile);
+    for (let i = 0; i < cmyk.length; i++) cmyk[i] = 255 - cmyk[i];
+    await writer.write(cmyk);
+  }
+  await writer.close();
+
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    data: toBinaryString(new Uint8Array(await compressed)),
+  };
+};
+
+/**
+ * Places a prepared CMYK image on the current page (coordinates in document units).
+ */
+export const addCmykImage = (pdf: jsPDF, image: CmykImage, x: number, y: number, width: number, height: number) => {
+  const alias = `cmyk-${++aliasCounter}`;
+  pendingImages.set(alias, image);
+  // A one-byte marker matches no known file header, so addImage falls back to the "CMYK" processor
+  pdf.addImage(new Uint8Array([0]), 'CMYK', x, y, width, height, alias);
+};
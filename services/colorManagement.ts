@@ -0,0 +1,228 @@
+type RGB = [number, number, number];
+type CMYK = [number, number, number, number];
+
+/**
+ * Generic built-in CMYK separation. It is not the ICC characterization of any registered
+ * printing condition, so labels describe the paper and inks without naming one.
+ * Solid ink colours are sRGB approximations of typical process inks.
+ */
+export interface CmykProfile {
+  id: string;
+  label: string;
+  totalInkLimit: number; // Max C+M+Y+K, 3.3 = 330%
+  maxBlack: number;      // 0-1
+  gcr: number;           // 0-1, how much of the grey component goes to black
+  inks: { c: RGB; m: RGB; y: RGB; k: RGB };
+}
+
+export const CMYK_PROFILES: Record<string, CmykProfile> = {
+  COATED: {
+    id: 'COATED',
+    label: 'Approximate coated (European inks)',
+    totalInkLimit: 3.3,
+    maxBlack: 0.95,
+    gcr: 0.6,
+    inks: { c: [0, 158, 224], m: [226, 0, 122], y: [255, 237, 0], k: [35, 31, 32] },
+  },
+  COATED_US: {
+    id: 'COATED_US',
+    label: 'Approximate coated (US inks)',
+    totalInkLimit: 3.2,
+    maxBlack: 0.95,
+    gcr: 0.6,
+    inks: { c: [0, 160, 226], m: [229, 0, 125], y: [255, 239, 0], k: [30, 27, 28] },
+  },
+  UNCOATED: {
+    id: 'UNCOATED',
+    label: 'Approximate uncoated',
+    totalInkLimit: 3.0,
+    maxBlack: 0.9,
+    gcr: 0.7,
+    inks: { c: [48, 145, 203], m: [210, 72, 140], y: [250, 228, 80], k: [72, 70, 72] },
+  },
+};
+
+// Ids saved before the separations were renamed, so older settings keep their choice
+export const LEGACY_CMYK_PROFILE_IDS: Record<string, string> = {
+  FOGRA39: 'COATED',
+  GRACOL: 'COATED_US',
+  FOGRA29: 'UNCOATED',
+};
+
+// Grid points per axis of the RGB -> CMYK lookup table (like an ICC CLUT)
+const LUT_SIZE = 17;
+// CIE76 distance above which a colour is flagged as out of gamut
+const GAMUT_DELTA_E = 8;
+
+const toLinear = (v: number) => (v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4));
+const toGamma = (v: number) => (v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055);
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+/**
+ * Predicts the printed colour (linear RGB) of an ink combination.
+ * Each ink acts as a filter whose transmittance is its solid colour.
+ */
+const simulateInks = (profile: CmykProfile, cmyk: CMYK): RGB => {
+  const inks = [profile.inks.c, profile.inks.m, profile.inks.y, profile.inks.k];
+  const out: RGB = [1, 1, 1];
+  for (let ch = 0; ch < 3; ch++) {
+    for (let i = 0; i < 4; i++) {
+      const transmittance = toLinear(inks[i][ch] / 255);
+      out[ch] *= 1 - cmyk[i] * (1 - transmittance);
+    }
+  }
+  return out;
+};
+
+/**
+ * Separates one gamma-encoded RGB colour into CMYK for the profile:
+ * black generation from the grey component, iterative CMY solve, then ink limit.
+ */
+const separate = (profile: CmykProfile, rgb: RGB): CMYK => {
+  const grey = 1 - Math.max(rgb[0], rgb[1], rgb[2]);
+  const k = Math.min(profile.maxBlack, profile.gcr * Math.max(0, grey - 0.1) / 0.9);
+
+  const target = rgb.map(v => Math.max(1e-4, toLinear(v)));
+  const cmyk: CMYK = [clamp01(1 - rgb[0] - k), clamp01(1 - rgb[1] - k), clamp01(1 - rgb[2] - k), k];
+
+  // Damped fixed-point solve in density space: each ink mainly controls its complementary channel
+  for (let iter = 0; iter < 40; iter++) {
+    const printed = simulateInks(profile, cmyk);
+    for (let ch = 0; ch < 3; ch++) {
+      const error = Math.log(Math.max(1e-4, printed[ch])) - Math.log(target[ch]);
+      const step = Math.max(-0.08, Math.min(0.08, error * 0.35));
+      cmyk[ch] = clamp01(cmyk[ch] + step);
+    }
+  }
+
+  const total = cmyk[0] + cmyk[1] + cmyk[2] + cmyk[3];
+  if (total > profile.totalInkLimit) {
+    const scale = (profile.totalInkLimit - k) / (total - k);
+    cmyk[0] *= scale;
+    cmyk[1] *= scale;
+    cmyk[2] *= scale;
+  }
+  return cmyk;
+};
+
+const toLab = (linear: RGB): RGB => {
+  // Linear sRGB -> XYZ (D65) -> Lab
+  const x = (0.4124 * linear[0] + 0.3576 * linear[1] + 0.1805 * linear[2]) / 0.95047;
+  const y = 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+  const z = (0.0193 * linear[0] + 0.1192 * linear[1] + 0.9505 * linear[2]) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+interface ProfileLuts {
+  cmyk: Float32Array;  // 4 values per grid point
+  proof: Float32Array; // Printed sRGB (0-255) + out-of-gamut flag per grid point
+}
+
+const lutCache = new Map<string, ProfileLuts>();
+
+const getLuts = (profile: CmykProfile): ProfileLuts => {
+  const cached = lutCache.get(profile.id);
+  if (cached) return cached;
+
+  const points = LUT_SIZE * LUT_SIZE * LUT_SIZE;
+  const cmyk = new Float32Array(points * 4);
+  const proof = new Float32Array(points * 4);
+
+  let p = 0;
+  for (let r = 0; r < LUT_SIZE; r++) {
+    for (let g = 0; g < LUT_SIZE; g++) {
+      for (let b = 0; b < LUT_SIZE; b++, p++) {
+        const rgb: RGB = [r / (LUT_SIZE - 1), g / (LUT_SIZE - 1), b / (LUT_SIZE - 1)];
+        const inks = separate(profile, rgb);
+        const printed = simulateInks(profile, inks);
+
+        const source = toLab(rgb.map(toLinear) as RGB);
+        const result = toLab(printed);
+        const deltaE = Math.hypot(source[0] - result[0], source[1] - result[1], source[2] - result[2]);
+
+        cmyk.set(inks, p * 4);
+        proof.set([toGamma(printed[0]) * 255, toGamma(printed[1]) * 255, toGamma(printed[2]) * 255, deltaE > GAMUT_DELTA_E ? 1 : 0], p * 4);
+      }
+    }
+  }
+
+  const luts = { cmyk, proof };
+  lutCache.set(profile.id, luts);
+  return luts;
+};
+
+/**
+ * Trilinear lookup of a 4-channel table for an 8-bit RGB colour.
+ */
+const lookup = (lut: Float32Array, r: number, g: number, b: number, out: Float32Array) => {
+  const scale = (LUT_SIZE - 1) / 255;
+  const fr = r * scale, fg = g * scale, fb = b * scale;
+  const r0 = Math.min(LUT_SIZE - 2, Math.floor(fr));
+  const g0 = Math.min(LUT_SIZE - 2, Math.floor(fg));
+  const b0 = Math.min(LUT_SIZE - 2, Math.floor(fb));
+  const dr = fr - r0, dg = fg - g0, db = fb - b0;
+
+  out.fill(0);
+  for (let corner = 0; corner < 8; corner++) {
+    const ir = corner >> 2, ig = (corner >> 1) & 1, ib = corner & 1;
+    const weight = (ir ? dr : 1 - dr) * (ig ? dg : 1 - dg) * (ib ? db : 1 - db);
+    if (weight === 0) continue;
+    const index = (((r0 + ir) * LUT_SIZE + (g0 + ig)) * LUT_SIZE + (b0 + ib)) * 4;
+    out[0] += lut[index] * weight;
+    out[1] += lut[index + 1] * weight;
+    out[2] += lut[index + 2] * weight;
+    out[3] += lut[index + 3] * weight;
+  }
+};
+
+/**
+ * Converts RGBA pixels to 8-bit CMYK (0 = no ink, 255 = solid).
+ * Transparent pixels are treated as paper white.
+ */
+export const convertRgbaToCmyk = (rgba: Uint8ClampedArray, profile: CmykProfile): Uint8Array => {
+  const { cmyk } = getLuts(profile);
+  const out = new Uint8Array(rgba.length);
+  const value = new Float32Array(4);
+
+  for (let i = 0; i < rgba.length; i += 4) {
+    const alpha = rgba[i + 3] / 255;
+    const r = rgba[i] * alpha + 255 * (1 - alpha);
+    const g = rgba[i + 1] * alpha + 255 * (1 - alpha);
+    const b = rgba[i + 2] * alpha + 255 * (1 - alpha);
+    lookup(cmyk, r, g, b, value);
+    out[i] = Math.round(value[0] * 255);
+    out[i + 1] = Math.round(value[1] * 255);
+    out[i + 2] = Math.round(value[2] * 255);
+    out[i + 3] = Math.round(value[3] * 255);
+  }
+  return out;
+};
+
+/**
+ * Replaces the pixels with their simulated printed appearance.
+ * With gamutWarning, colours the printer cannot reproduce are painted with the warning colour.
+ */
+export const softProofImageData = (
+  imageData: ImageData,
+  profile: CmykProfile,
+  gamutWarning: boolean,
+  warningColor: RGB = [255, 0, 255]
+) => {
+  const { proof } = getLuts(profile);
+  const data = imageData.data;
+  const value = new Float32Array(4);
+
+  for (let i = 0; i < data.length; i += 4) {
+    lookup(proof, data[i], data[i + 1], data[i + 2], value);
+    if (gamutWarning && value[3] >= 0.5) {
+      data[i] = warningColor[0];
+      data[i + 1] = warningColor[1];
+      data[i + 2] = warningColor[2];
+    } else {
+      data[i] = value[0];
+      data[i + 1] = value[1];
+      data[i + 2] = value[2];
+    }
+  }
+};
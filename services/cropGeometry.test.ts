@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { CropState } from '../types';
+import { RenderContext } from './canvasUtils';
+import {
+  DEFAULT_CROP, drawCrop, flipCrop, getImagePlacement, panCrop, rotateCrop, zoomCrop,
+} from './cropGeometry';
+
+type Matrix = [number, number, number, number, number, number]; // a b c d e f, as in DOMMatrix
+
+const multiply = ([a1, b1, c1, d1, e1, f1]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix => [
+  a1 * a2 + c1 * b2, b1 * a2 + d1 * b2,
+  a1 * c2 + c1 * d2, b1 * c2 + d1 * d2,
+  a1 * e2 + c1 * f2 + e1, b1 * e2 + d1 * f2 + f1,
+];
+
+// Records where drawImage puts the source corners, in frame pixels
+const createRecordingContext = () => {
+  let matrix: Matrix = [1, 0, 0, 1, 0, 0];
+  const stack: Matrix[] = [];
+  const corners: { x: number; y: number }[] = [];
+  const ctx = {
+    save: () => { stack.push(matrix); },
+    restore: () => { matrix = stack.pop() || [1, 0, 0, 1, 0, 0]; },
+    translate: (x: number, y: number) => { matrix = multiply(matrix, [1, 0, 0, 1, x, y]); },
+    scale: (x: number, y: number) => { matrix = multiply(matrix, [x, 0, 0, y, 0, 0]); },
+    rotate: (angle: number) => {
+      matrix = multiply(matrix, [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0]);
+    },
+    drawImage: (_source: unknown, x: number, y: number, w: number, h: number) => {
+      const [a, b, c, d, e, f] = matrix;
+      // Source top-left, top-right, bottom-right, bottom-left
+      [[x, y], [x + w, y], [x + w, y + h], [x, y + h]].forEach(([px, py]) => {
+        corners.push({ x: a * px + c * py + e, y: b * px + d * py + f });
+      });
+    },
+  };
+  return { ctx: ctx as unknown as RenderContext, corners };
+};
+
+const drawnCorners = (crop: CropState, imageWidth: number, imageHeight: number, frameWidth: number, frameHeight: number) => {
+  const { ctx, corners } = createRecordingContext();
+  drawCrop(ctx, {} as CanvasImageSource, crop, imageWidth, imageHeight, frameWidth, frameHeight);
+  return corners;
+};
+
+// A4 with 3mm bleed at 300 dpi, and the same frame at editor size
+const OUTPUT = { width: 2551, height: 3579 };
+const PREVIEW = { width: 300, height: 300 * (3579 / 2551) };
+const IMAGE = { width: 4000, height: 3000 };
+
+const CROPS: CropState[] = [
+  DEFAULT_CROP,
+  { ...DEFAULT_CROP, centerX: 0.3, centerY: 0.65, scale: 1.8 },
+  { ...DEFAULT_CROP, rotation: 90, scale: 0.7 },
+  { ...DEFAULT_CROP, rotation: 270, flipH: true, centerX: 0.6, scale: 1.2 },
+  { ...DEFAULT_CROP, rotation: 180, flipV: true, straighten: 12.5, centerY: 0.4, scale: 2.2 },
+];
+
+const expectCrop = (actual: CropState, expected: CropState) => {
+  expect(actual.rotation).toBe(expected.rotation);
+  expect(actual.flipH).toBe(expected.flipH);
+  expect(actual.flipV).toBe(expected.flipV);
+  expect(actual.centerX).toBeCloseTo(expected.centerX, 9);
+  expect(actual.centerY).toBeCloseTo(expected.centerY, 9);
+  expect(actual.scale).toBeCloseTo(expected.scale, 9);
+  expect(actual.straighten).toBeCloseTo(expected.straighten, 9);
+};
+
+describe('preview and output placement', () => {
+  const ratio = OUTPUT.width / PREVIEW.width;
+
+  it.each(CROPS)('getImagePlacement differs only by the frame scale (%o)', crop => {
+    const preview = getImagePlacement(crop, IMAGE.width, IMAGE.height, PREVIEW.width, PREVIEW.height);
+    const output = getImagePlacement(crop, IMAGE.width, IMAGE.height, OUTPUT.width, OUTPUT.height);
+    expect(output.x).toBeCloseTo(preview.x * ratio, 6);
+    expect(output.y).toBeCloseTo(preview.y * ratio, 6);
+    expect(output.width).toBeCloseTo(preview.width * ratio, 6);
+    expect(output.height).toBeCloseTo(preview.height * ratio, 6);
+  });
+
+  it.each(CROPS)('drawCrop puts every image corner at the same relative spot (%o)', crop => {
+    const preview = drawnCorners(crop, IMAGE.width, IMAGE.height, PREVIEW.width, PREVIEW.height);
+    const output = drawnCorners(crop, IMAGE.width, IMAGE.height, OUTPUT.width, OUTPUT.height);
+    expect(output).toHaveLength(4);
+    output.forEach((corner, idx) => {
+      expect(corner.x).toBeCloseTo(preview[idx].x * ratio, 6);
+      expect(corner.y).toBeCloseTo(preview[idx].y * ratio, 6);
+    });
+  });
+
+  it('drawCrop matches getImagePlacement when nothing is rotated', () => {
+    const crop = CROPS[1];
+    const placement = getImagePlacement(crop, IMAGE.width, IMAGE.height, OUTPUT.width, OUTPUT.height);
+    const [topLeft, , bottomRight] = drawnCorners(crop, IMAGE.width, IMAGE.height, OUTPUT.width, OUTPUT.height);
+    expect(topLeft.x).toBeCloseTo(placement.x, 6);
+    expect(topLeft.y).toBeCloseTo(placement.y, 6);
+    expect(bottomRight.x).toBeCloseTo(placement.x + placement.width, 6);
+    expect(bottomRight.y).toBeCloseTo(placement.y + placement.height, 6);
+  });
+});
+
+describe('panCrop and zoomCrop', () => {
+  it.each(CROPS)('panning there and back restores the crop (%o)', crop => {
+    const moved = panCrop(crop, 37, -21, IMAGE.width, IMAGE.height, PREVIEW.width);
+    expectCrop(panCrop(moved, -37, 21, IMAGE.width, IMAGE.height, PREVIEW.width), crop);
+  });
+
+  it.each(CROPS)('a pan moves the image by the same amount in every frame size (%o)', crop => {
+    const ratio = OUTPUT.width / PREVIEW.width;
+    const before = drawnCorners(crop, IMAGE.width, IMAGE.height, OUTPUT.width, OUTPUT.height);
+    const moved = panCrop(crop, 10, 5, IMAGE.width, IMAGE.height, PREVIEW.width);
+    const after = drawnCorners(moved, IMAGE.width, IMAGE.height, OUTPUT.width, OUTPUT.height);
+    after.forEach((corner, idx) => {
+      expect(corner.x - before[idx].x).toBeCloseTo(10 * ratio, 6);
+      expect(corner.y - before[idx].y).toBeCloseTo(5 * ratio, 6);
+    });
+  });
+
+  it.each(CROPS)('zooming in and back out around a point restores the crop (%o)', crop => {
+    const focus = { x: -40, y: 25 };
+    const zoomed = zoomCrop(crop, crop.scale * 1.5, IMAGE.width, IMAGE.height, PREVIEW.width, focus);
+    expectCrop(zoomCrop(zoomed, crop.scale, IMAGE.width, IMAGE.height, PREVIEW.width, focus), crop);
+  });
+
+  it('keeps the image point under the focus in place', () => {
+    const crop = CROPS[4];
+    const focus = { x: 60, y: -30 };
+    const zoomed = zoomCrop(crop, 1.1, IMAGE.width, IMAGE.height, PREVIEW.width, focus);
+    // Pan so the focus becomes the frame center; the same image point must be there in both
+    const centered = (c: CropState) => panCrop(c, -focus.x, -focus.y, IMAGE.width, IMAGE.height, PREVIEW.width);
+    expect(centered(zoomed).centerX).toBeCloseTo(centered(crop).centerX, 9);
+    expect(centered(zoomed).centerY).toBeCloseTo(centered(crop).centerY, 9);
+  });
+
+  it('clamps the zoom to the editor range', () => {
+    expect(zoomCrop(DEFAULT_CROP, 100, IMAGE.width, IMAGE.height, PREVIEW.width).scale).toBe(3);
+    expect(zoomCrop(DEFAULT_CROP, 0, IMAGE.width, IMAGE.height, PREVIEW.width).scale).toBe(0.1);
+  });
+});
+
+describe('rotateCrop and flipCrop', () => {
+  it.each(CROPS)('four quarter turns in either direction give the same crop back (%o)', crop => {
+    for (const clockwise of [true, false]) {
+      let turned = crop;
+      for (let i = 0; i < 4; i++) turned = rotateCrop(turned, IMAGE.width, IMAGE.height, clockwise);
+      expectCrop(turned, crop);
+    }
+  });
+
+  it.each(CROPS)('a turn one way undoes a turn the other way (%o)', crop => {
+    const turned = rotateCrop(crop, IMAGE.width, IMAGE.height, true);
+    expectCrop(rotateCrop(turned, IMAGE.width, IMAGE.height, false), crop);
+  });
+
+  it.each(CROPS)('a clockwise turn rotates the drawn image by 90 degrees around the frame center (%o)', crop => {
+    const frame = { width: 1000, height: 1000 };
+    const before = drawnCorners(crop, IMAGE.width, IMAGE.height, frame.width, frame.height);
+    const after = drawnCorners(rotateCrop(crop, IMAGE.width, IMAGE.height, true), IMAGE.width, IMAGE.height, frame.width, frame.height);
+    const cx = frame.width / 2;
+    const cy = frame.height / 2;
+    before.forEach((corner, idx) => {
+      // (x, y) -> (cx - (y - cy), cy + (x - cx)) is a clockwise quarter turn on screen
+      expect(after[idx].x).toBeCloseTo(cx - (corner.y - cy), 6);
+      expect(after[idx].y).toBeCloseTo(cy + (corner.x - cx), 6);
+    });
+  });
+
+  it.each(CROPS)('flipping twice gives the same crop back (%o)', crop => {
+    expectCrop(flipCrop(flipCrop(crop, 'horizontal'), 'horizontal'), crop);
+    expectCrop(flipCrop(flipCrop(crop, 'vertical'), 'vertical'), crop);
+  });
+
+  it.each(CROPS)('a horizontal flip mirrors the drawn image across the frame center (%o)', crop => {
+    const frame = { width: 800, height: 600 };
+    const before = drawnCorners(crop, IMAGE.width, IMAGE.height, frame.width, frame.height);
+    const after = drawnCorners(flipCrop(crop, 'horizontal'), IMAGE.width, IMAGE.height, frame.width, frame.height);
+    // The same source corner lands on the mirrored position
+    before.forEach((corner, idx) => {
+      expect(after[idx].x).toBeCloseTo(frame.width - corner.x, 6);
+      expect(after[idx].y).toBeCloseTo(corner.y, 6);
+    });
+  });
+
+  it.each(CROPS)('a vertical flip mirrors the drawn image across the frame center (%o)', crop => {
+    const frame = { width: 800, height: 600 };
+    const before = drawnCorners(crop, IMAGE.width, IMAGE.height, frame.width, frame.height);
+    const after = drawnCorners(flipCrop(crop, 'vertical'), IMAGE.width, IMAGE.height, frame.width, frame.height);
+    before.forEach((corner, idx) => {
+      expect(after[idx].x).toBeCloseTo(corner.x, 6);
+      expect(after[idx].y).toBeCloseTo(frame.height - corner.y, 6);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { CropState, Dimensions } from '../types';
+import { RenderContext } from './canvasUtils';
+
+export const DEFAULT_CROP: CropState = {
+  centerX: 0.5,
+  centerY: 0.5,
+  scale: 1,
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  straighten: 0,
+};
+
+// Smallest zoom honoured when placing the image
+export const MIN_CROP_SCALE = 0.05;
+// Zoom range of the editor controls (slider, wheel, pinch, keyboard)
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 3;
+// Range of the fine straighten slider, in degrees
+export const MAX_STRAIGHTEN_DEG = 45;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Size of the image after the quarter-turn rotation; centerX/centerY and scale refer to this.
+ */
+export const getOrientedSize = (imageWidth: number, imageHeight: number, crop: CropState): Dimensions =>
+  crop.rotation % 180 === 0
+    ? { width: imageWidth, height: imageHeight }
+    : { width: imageHeight, height: imageWidth };
+
+/**
+ * Where the (rotated and flipped) image lands inside a frame, in frame pixels with the origin
+ * at the frame's top-left corner, before straightening.
+ */
+export interface ImagePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Places the image for a crop in a frame of any size. The editor preview and every output
+ * call this with their own frame dimensions, so they only differ by a uniform scale factor.
+ */
+export const getImagePlacement = (
+  crop: CropState,
+  imageWidth: number,
+  imageHeight: number,
+  frameWidth: number,
+  frameHeight: number
+): ImagePlacement => {
+  const oriented = getOrientedSize(imageWidth, imageHeight, crop);
+  const width = frameWidth * Math.max(MIN_CROP_SCALE, crop.scale);
+  const height = (width / oriented.width) * oriented.height;
+  return {
+    x: frameWidth / 2 - crop.centerX * width,
+    y: frameHeight / 2 - crop.centerY * height,
+    width,
+    height,
+  };
+};
+
+/**
+ * Draws the cropped image into a frame whose top-left corner is the context origin.
+ * Straightening turns the image around the frame center; rotation and flips apply within the placement.
+ */
+export const drawCrop = (
+  ctx: RenderContext,
+  source: CanvasImageSource,
+  crop: CropState,
+  imageWidth: number,
+  imageHeight: number,
+  frameWidth: number,
+  frameHeight: number
+) => {
+  const placement = getImagePlacement(crop, imageWidth, imageHeight, frameWidth, frameHeight);
+  const quarterTurned = crop.rotation % 180 !== 0;
+  // Size of the source before the quarter turn
+  const drawW = quarterTurned ? placement.height : placement.width;
+  const drawH = quarterTurned ? placement.width : placement.height;
+
+  ctx.save();
+  ctx.translate(frameWidth / 2, frameHeight / 2);
+  ctx.rotate(toRadians(crop.straighten));
+  ctx.translate(placement.x + placement.width / 2 - frameWidth / 2, placement.y + placement.height / 2 - frameHeight / 2);
+  ctx.scale(crop.flipH ? -1 : 1, crop.flipV ? -1 : 1);
+  ctx.rotate(toRadians(crop.rotation));
+  ctx.drawImage(source, -drawW / 2, -drawH / 2, drawW, drawH);
+  ctx.restore();
+};
+
+/**
+ * Moves the image by a screen-space delta measured in a frame of the given width.
+ */
+export const panCrop = (
+  crop: CropState,
+  dx: number,
+  dy: number,
+  imageWidth: number,
+  imageHeight: number,
+  frameWidth: number
+): CropState => {
+  const { width, height } = getImagePlacement(crop, imageWidth, imageHeight, frameWidth, 0);
+  // The placement is straightened, so the pointer delta is turned back into its axes
+  const angle = toRadians(crop.straighten);
+  const along = dx * Math.cos(angle) + dy * Math.sin(angle);
+  const across = -dx * Math.sin(angle) + dy * Math.cos(angle);
+  return { ...crop, centerX: crop.centerX - along / width, centerY: crop.centerY - across / height };
+};
+
+export const clampZoom = (scale: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+
+/**
+ * Changes the zoom while the image point under `focus` stays in place.
+ * The focus is in frame pixels relative to the frame center; by default the center stays put.
+ */
+export const zoomCrop = (
+  crop: CropState,
+  scale: number,
+  imageWidth: number,
+  imageHeight: number,
+  frameWidth: number,
+  focus: { x: number; y: number } = { x: 0, y: 0 }
+): CropState => {
+  const next = { ...crop, scale: clampZoom(scale) };
+  const before = getImagePlacement(crop, imageWidth, imageHeight, frameWidth, 0);
+  const after = getImagePlacement(next, imageWidth, imageHeight, frameWidth, 0);
+  // Into the axes of the (straightened) placement, as in panCrop
+  const angle = toRadians(crop.straighten);
+  const along = focus.x * Math.cos(angle) + focus.y * Math.sin(angle);
+  const across = -focus.x * Math.sin(angle) + focus.y * Math.cos(angle);
+  return {
+    ...next,
+    centerX: crop.centerX + along / before.width - along / after.width,
+    centerY: crop.centerY + across / before.height - across / after.height,
+  };
+};
+
+/**
+ * Turns the image by 90 degrees on screen, keeping the framed point and the zoom in source pixels.
+ */
+export const rotateCrop = (crop: CropState, imageWidth: number, imageHeight: number, clockwise: boolean): CropState => {
+  const oriented = getOrientedSize(imageWidth, imageHeight, crop);
+  // A single flip mirrors the turning direction of the underlying rotation
+  const mirrored = crop.flipH !== crop.flipV;
+  const step = clockwise !== mirrored ? 90 : 270;
+  return {
+    ...crop,
+    rotation: ((crop.rotation + step) % 360) as CropState['rotation'],
+    centerX: clockwise ? 1 - crop.centerY : crop.centerY,
+    centerY: clockwise ? crop.centerX : 1 - crop.centerX,
+    scale: crop.scale * (oriented.height / oriented.width),
+  };
+};
+
+/**
+ * Mirrors the image on screen. The straighten angle is mirrored with it so the horizon stays level.
+ */
+export const flipCrop = (crop: CropState, axis: 'horizontal' | 'vertical'): CropState =>
+  axis === 'horizontal'
+    ? { ...crop, flipH: !crop.flipH, centerX: 1 - crop.centerX, straighten: -crop.straighten }
+    : { ...crop, flipV: !crop.flipV, centerY: 1 - crop.centerY, straighten: -crop.straighten };
+
+/**
+ * Zoom at which the whole image fits inside the frame. Takes the oriented image size.
+ */
+export const getFitScale = (imageWidth: number, imageHeight: number, frameAspect: number): number => {
+  const imageAspect = imageWidth / imageHeight;
+  return imageAspect > frameAspect ? 1 : imageAspect / frameAspect;
+};
+
+/**
+ * Zoom at which the image covers the whole frame. Takes the oriented image size.
+ */
+export const getFillScale = (imageWidth: number, imageHeight: number, frameAspect: number): number => {
+  const imageAspect = imageWidth / imageHeight;
+  return imageAspect > frameAspect ? imageAspect / frameAspect : 1;
+};
+
+export type CropAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// Row by row, as laid out in the anchor picker
+export const CROP_ANCHORS: CropAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+// Batch alignment rule, evaluated against each image's own size
+export interface CropAlignment {
+  mode: 'fit' | 'fill';
+  anchor: CropAnchor;
+  paddingPercent: number; // Margin inside the frame on every side, as % of the frame size
+}
+
+export const MAX_ALIGNMENT_PADDING = 40;
+
+const anchorFactors = (anchor: CropAnchor): { x: number; y: number } => ({
+  x: anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? 1 : 0.5,
+  y: anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5,
+});
+
+/**
+ * Builds the crop that fits or fills the padded frame with the image, pinned to the anchor.
+ * Works in frame units (frame width = 1), so it holds for any output size of that aspect.
+ */
+export const alignCrop = (
+  alignment: CropAlignment,
+  imageWidth: number,
+  imageHeight: number,
+  frameAspect: number,
+  base: CropState = DEFAULT_CROP // Rotation, flips and straightening are kept from this crop
+): CropState => {
+  const padding = Math.min(MAX_ALIGNMENT_PADDING, Math.max(0, alignment.paddingPercent)) / 100;
+  const frameHeight = 1 / frameAspect;
+  const innerWidth = 1 - padding * 2;
+  const innerHeight = frameHeight * (1 - padding * 2);
+
+  const oriented = getOrientedSize(imageWidth, imageHeight, base);
+  const imageAspect = oriented.width / oriented.height;
+  const scale = alignment.mode === 'fit'
+    ? Math.min(innerWidth, innerHeight * imageAspect)
+    : Math.max(innerWidth, innerHeight * imageAspect);
+  const width = scale;
+  const height = scale / imageAspect;
+
+  // Top-left corner of the image; with 'fill' the overflow is cut on the side away from the anchor
+  const anchor = anchorFactors(alignment.anchor);
+  const x = padding + anchor.x * (innerWidth - width);
+  const y = frameHeight * padding + anchor.y * (innerHeight - height);
+
+  return {
+    ...base,
+    centerX: (0.5 - x) / width,
+    centerY: (frameHeight / 2 - y) / height,
+    scale,
+  };
+};
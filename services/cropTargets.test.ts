@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CROP } from './cropGeometry';
+import { DEFAULT_QUAD } from './perspective';
+import { createFileCrops, isSavedFileCrops, normalizeFileCrops, resolvePrintOrientation } from './cropTargets';
+
+describe('isSavedFileCrops', () => {
+  it('accepts crops written by the app, and older ones with fields missing', () => {
+    expect(isSavedFileCrops(createFileCrops())).toBe(true);
+    expect(isSavedFileCrops({ ...createFileCrops(), perspective: DEFAULT_QUAD, targets: { 'pdf:A4': DEFAULT_CROP } })).toBe(true);
+    expect(isSavedFileCrops({ shared: { centerX: 0.4, centerY: 0.5, scale: 1 } })).toBe(true);
+  });
+
+  it.each([
+    ['a string perspective', { perspective: 'none' }],
+    ['a 3 point perspective', { perspective: DEFAULT_QUAD.slice(0, 3) }],
+    ['a perspective point without numbers', { perspective: [...DEFAULT_QUAD.slice(0, 3), { x: '1', y: 1 }] }],
+    ['a non-numeric crop field', { shared: { ...DEFAULT_CROP, centerX: '0.5' } }],
+    ['a zero scale', { shared: { ...DEFAULT_CROP, scale: 0 } }],
+    ['a rotation that is not a quarter turn', { shared: { ...DEFAULT_CROP, rotation: 45 } }],
+    ['a malformed target crop', { targets: { 'pdf:A4': null } }],
+    ['a non-boolean link flag', { linked: 'yes' }],
+  ])('rejects %s', (_label, crops) => {
+    expect(isSavedFileCrops(crops)).toBe(false);
+  });
+});
+
+describe('normalizeFileCrops', () => {
+  it('fills in missing crop fields and drops a malformed perspective', () => {
+    const crops = normalizeFileCrops({ shared: { ...DEFAULT_CROP, centerX: 0.3 }, perspective: null });
+    expect(crops.shared).toEqual({ ...DEFAULT_CROP, centerX: 0.3 });
+    expect(normalizeFileCrops(JSON.parse('{"perspective":[1,2,3]}')).perspective).toBeNull();
+  });
+});
+
+describe('resolvePrintOrientation', () => {
+  const sideways = { width: 4000, height: 3000 }; // Phone photo taken upright, stored landscape
+
+  it('follows the image as rotated in the crop', () => {
+    const crops = createFileCrops();
+    expect(resolvePrintOrientation('auto', sideways, crops)).toBe('landscape');
+    expect(resolvePrintOrientation('auto', sideways, { ...crops, shared: { ...crops.shared, rotation: 90 } })).toBe('portrait');
+    expect(resolvePrintOrientation('auto', sideways, { ...crops, shared: { ...crops.shared, rotation: 180 } })).toBe('landscape');
+    expect(resolvePrintOrientation('auto', sideways, { ...crops, shared: { ...crops.shared, rotation: 270 } })).toBe('portrait');
+  });
+
+  it('keeps a fixed orientation', () => {
+    const crops = createFileCrops();
+    expect(resolvePrintOrientation('landscape', sideways, { ...crops, shared: { ...crops.shared, rotation: 90 } })).toBe('landscape');
+  });
+});
@@ -0,0 +1,143 @@
+import { CropState, Dimensions, ExportOptions, FileCrops, Orientation, PageOrientation, PaperFormat, WebPreset } from '../types';
+import { getPrintDimensions, orientFormat, resolveOrientation } from './paperFormats';
+import { DEFAULT_CROP, CropAlignment, alignCrop, getOrientedSize } from './cropGeometry';
+import { isPerspectiveQuad } from './perspective';
+
+/**
+ * Something the crop is made for: a print format or a web preset.
+ */
+export interface CropTarget {
+  key: string;
+  label: string;
+  aspect: number;        // Width / height of the full frame (incl. bleed)
+  format?: PaperFormat;  // Print targets, already oriented
+  preset?: WebPreset;    // Web targets
+}
+
+export const printTargetKey = (format: PaperFormat) => `pdf:${format.id}`;
+export const webTargetKey = (preset: WebPreset) => `web:${preset.id}`;
+
+export const printTarget = (format: PaperFormat, orientation: PageOrientation): CropTarget => {
+  const oriented = orientFormat(format, orientation);
+  const { totalWidthCm, totalHeightCm } = getPrintDimensions(oriented);
+  return { key: printTargetKey(format), label: format.label, aspect: totalWidthCm / totalHeightCm, format: oriented };
+};
+
+export const webTarget = (preset: WebPreset): CropTarget => ({
+  key: webTargetKey(preset),
+  label: preset.label,
+  aspect: preset.widthPx / preset.heightPx,
+  preset,
+});
+
+/**
+ * Every crop-dependent output selected in the options, print formats first.
+ */
+export const getCropTargets = (options: ExportOptions, orientation: PageOrientation): CropTarget[] => [
+  ...(options.includePdf ? options.paperFormats.map(format => printTarget(format, orientation)) : []),
+  ...(options.includeWebpFixed ? options.webPresets.map(webTarget) : []),
+];
+
+/**
+ * Page orientation of a file's print targets. 'auto' follows the image as shown, i.e. after the
+ * shared crop's quarter turn, so a sideways photo turned upright gets portrait paper.
+ */
+export const resolvePrintOrientation = (orientation: Orientation, source: Dimensions, crops: FileCrops): PageOrientation => {
+  const shown = getOrientedSize(source.width, source.height, crops.shared);
+  return resolveOrientation(orientation, shown.width, shown.height);
+};
+
+export const createFileCrops = (): FileCrops => ({ linked: true, shared: { ...DEFAULT_CROP }, targets: {}, perspective: null });
+
+const QUARTER_TURNS = [0, 90, 180, 270];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+// Fields may be missing (older saves get defaults), but those present must have the right type
+const isSavedCrop = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object') return false;
+  const crop = value as Record<string, unknown>;
+  const optional = (key: string, check: (field: unknown) => boolean) => crop[key] === undefined || check(crop[key]);
+  return optional('centerX', isFiniteNumber) &&
+    optional('centerY', isFiniteNumber) &&
+    optional('scale', scale => isFiniteNumber(scale) && scale > 0) &&
+    optional('straighten', isFiniteNumber) &&
+    optional('rotation', rotation => QUARTER_TURNS.some(turn => turn === rotation)) &&
+    optional('flipH', flip => typeof flip === 'boolean') &&
+    optional('flipV', flip => typeof flip === 'boolean');
+};
+
+/**
+ * Shape check for crops from a file the app did not write itself (project files).
+ */
+export const isSavedFileCrops = (value: unknown): value is Partial<FileCrops> => {
+  if (!value || typeof value !== 'object') return false;
+  const crops = value as Record<string, unknown>;
+  const targets = crops.targets;
+  return (crops.linked === undefined || typeof crops.linked === 'boolean') &&
+    (crops.shared === undefined || isSavedCrop(crops.shared)) &&
+    (targets === undefined || (!!targets && typeof targets === 'object' && Object.values(targets).every(isSavedCrop))) &&
+    (crops.perspective === undefined || crops.perspective === null || isPerspectiveQuad(crops.perspective));
+};
+
+/**
+ * Fills in fields missing from crops saved by an older version (sessions, project files).
+ */
+export const normalizeFileCrops = (saved: Partial<FileCrops> | undefined): FileCrops => {
+  const crops = createFileCrops();
+  if (!saved) return crops;
+  const targets: Record<string, CropState> = {};
+  Object.entries(saved.targets || {}).forEach(([key, crop]) => { targets[key] = { ...DEFAULT_CROP, ...crop }; });
+  return {
+    linked: typeof saved.linked === 'boolean' ? saved.linked : crops.linked,
+    shared: { ...DEFAULT_CROP, ...saved.shared },
+    targets,
+    perspective: isPerspectiveQuad(saved.perspective) ? saved.perspective : null,
+  };
+};
+
+/**
+ * The crop a target renders with: the shared one while linked, otherwise its own
+ * (falling back to the shared crop until the target has been edited).
+ */
+export const getTargetCrop = (crops: FileCrops, key: string): CropState =>
+  crops.linked ? crops.shared : crops.targets[key] || crops.shared;
+
+export const setTargetCrop = (crops: FileCrops, key: string, crop: CropState): FileCrops =>
+  crops.linked ? { ...crops, shared: crop } : { ...crops, targets: { ...crops.targets, [key]: crop } };
+
+/**
+ * Switches between one crop for all targets and independent crops.
+ * Linking adopts the crop of the target being edited; unlinking starts every target from the shared crop.
+ */
+export const setCropsLinked = (crops: FileCrops, linked: boolean, activeKey: string): FileCrops =>
+  linked
+    ? { ...crops, linked: true, shared: getTargetCrop(crops, activeKey), targets: {} }
+    : { ...crops, linked: false, targets: {} };
+
+/**
+ * Applies a batch alignment rule to one file. Linked crops are laid out for the primary target
+ * (the one the editor shows), independent crops for each target's own frame.
+ */
+export const alignFileCrops = (
+  crops: FileCrops,
+  alignment: CropAlignment,
+  image: Dimensions, // Size the crops are made on, see getCropSourceSize
+  targets: CropTarget[],
+  primaryKey: string
+): FileCrops => {
+  if (targets.length === 0) return crops;
+  // Each crop keeps its rotation, flips and straightening
+  const align = (target: CropTarget) =>
+    alignCrop(alignment, image.width, image.height, target.aspect, getTargetCrop(crops, target.key));
+
+  if (crops.linked) {
+    const primary = targets.find(target => target.key === primaryKey) || targets[0];
+    return { ...crops, shared: align(primary) };
+  }
+  const aligned: Record<string, CropState> = { ...crops.targets };
+  targets.forEach(target => {
+    aligned[target.key] = align(target);
+  });
+  return { ...crops, targets: aligned };
+};
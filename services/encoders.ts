@@ -0,0 +1,214 @@
+import { EncoderSettings, ImageFormat } from '../types';
+import { RenderCanvas, canvasToBlob, get2dContext, releaseCanvas } from './canvasUtils';
+import { encodeTiff } from './tiffEncoder';
+
+export interface ImageEncoder {
+  label: string;
+  extension: string;
+  mimeType: string;
+  lossy: boolean;             // Has a quality setting
+  losslessOption: boolean;    // Can switch between lossy and lossless
+  chromaOption: boolean;      // Chroma subsampling is configurable
+  progressiveOption: boolean;
+  encode: (canvas: RenderCanvas, settings: EncoderSettings) => Promise<Blob>;
+}
+
+const getImageData = (canvas: RenderCanvas): ImageData => {
+  const ctx = get2dContext(canvas);
+  if (!ctx) throw new Error('Could not get canvas context');
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Browsers only encode WebP, JPEG and PNG natively (and no progressive JPEG),
+ * so AVIF and JPEG use WASM codecs that are loaded on first use.
+ */
+export const IMAGE_ENCODERS: Record<ImageFormat, ImageEncoder> = {
+  webp: {
+    label: 'WebP',
+    extension: 'webp',
+    mimeType: 'image/webp',
+    lossy: true,
+    losslessOption: true,
+    chromaOption: false,
+    progressiveOption: false,
+    // Chromium switches its WebP encoder to lossless mode at quality 1.0
+    encode: (canvas, settings) => canvasToBlob(canvas, 'image/webp', settings.lossless ? 1 : settings.quality / 100),
+  },
+  avif: {
+    label: 'AVIF',
+    extension: 'avif',
+    mimeType: 'image/avif',
+    lossy: true,
+    losslessOption: true,
+    chromaOption: true,
+    progressiveOption: false,
+    encode: async (canvas, settings) => {
+      const { default: encode } = await import('@jsquash/avif/encode.js');
+      const data = await encode(getImageData(canvas), {
+        quality: settings.quality,
+        lossless: settings.lossless,
+        subsample: settings.chroma === '444' ? 3 : 1,
+      });
+      return new Blob([data], { type: 'image/avif' });
+    },
+  },
+  jpeg: {
+    label: 'JPEG',
+    extension: 'jpg',
+    mimeType: 'image/jpeg',
+    lossy: true,
+    losslessOption: false,
+    chromaOption: true,
+    progressiveOption: true,
+    encode: async (canvas, settings) => {
+      const { default: encode } = await import('@jsquash/jpeg/encode.js');
+      const data = await encode(getImageData(canvas), {
+        quality: settings.quality,
+        progressive: settings.progressive,
+        auto_subsample: false,
+        chroma_subsample: settings.chroma === '444' ? 1 : 2,
+      });
+      return new Blob([data], { type: 'image/jpeg' });
+    },
+  },
+  png: {
+    label: 'PNG',
+    extension: 'png',
+    mimeType: 'image/png',
+    lossy: false,
+    losslessOption: false,
+    chromaOption: false,
+    progressiveOption: false,
+    encode: (canvas) => canvasToBlob(canvas, 'image/png'),
+  },
+  tiff: {
+    label: 'TIFF',
+    extension: 'tif',
+    mimeType: 'image/tiff',
+    lossy: false,
+    losslessOption: false,
+    chromaOption: false,
+    progressiveOption: false,
+    encode: (canvas) => encodeTiff(canvas),
+  },
+};
+
+export const isImageFormat = (value: unknown): value is ImageFormat =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(IMAGE_ENCODERS, value);
+
+// Shape check for settings read from storage or imported files
+export const isEncoderSettings = (value: unknown): value is EncoderSettings => {
+  if (!value || typeof value !== 'object') return false;
+  const settings = value as Record<string, unknown>;
+  return isImageFormat(settings.format) &&
+    typeof settings.quality === 'number' && settings.quality >= 1 && settings.quality <= 100 &&
+    typeof settings.lossless === 'boolean' &&
+    (settings.chroma === '420' || settings.chroma === '444') &&
+    typeof settings.progressive === 'boolean' &&
+    (settings.maxSizeKb === null || (typeof settings.maxSizeKb === 'number' && settings.maxSizeKb > 0));
+};
+
+export const isLosslessEncoding = (settings: EncoderSettings) =>
+  !IMAGE_ENCODERS[settings.format].lossy || settings.lossless;
+
+// The quality search never goes below this; further savings come from smaller dimensions
+const MIN_BUDGET_QUALITY = 30;
+// Downscale attempts before giving up on a byte budget
+const MAX_BUDGET_RESIZES = 6;
+
+export interface BudgetResult {
+  blob: Blob;
+  settings: EncoderSettings; // With the quality that was settled on
+  width: number;
+  height: number;
+  withinBudget: boolean;
+}
+
+/**
+ * Encodes at the highest quality that fits in settings.maxSizeKb, found by binary search.
+ * If even the minimum quality is too big and resizing is allowed, the output is scaled down
+ * and the search repeated. Without a budget this is a single encode.
+ */
+export const encodeWithinBudget = async (
+  render: (width: number, height: number) => RenderCanvas,
+  width: number,
+  height: number,
+  settings: EncoderSettings,
+  allowResize: boolean
+): Promise<BudgetResult> => {
+  const encoder = IMAGE_ENCODERS[settings.format];
+  const maxBytes = settings.maxSizeKb ? settings.maxSizeKb * 1024 : Infinity;
+  const searchQuality = encoder.lossy && !(encoder.losslessOption && settings.lossless);
+
+  for (let attempt = 0; ; attempt++) {
+    const canvas = render(width, height);
+    try {
+      const encodeAt = async (quality: number) => ({ quality, blob: await encoder.encode(canvas, { ...settings, quality }) });
+
+      // Most images fit at the requested quality, so try that first
+      const first = await encodeAt(settings.quality);
+      let best = first.blob.size <= maxBytes ? first : null;
+      let smallest = first;
+
+      if (!best && searchQuality) {
+        let low = Math.min(MIN_BUDGET_QUALITY, settings.quality - 1);
+        let high = settings.quality - 1;
+        while (low <= high) {
+          const mid = Math.floor((low + high) / 2);
+          const result = await encodeAt(mid);
+          if (result.blob.size <= maxBytes) {
+            best = result;
+            low = mid + 1;
+          } else {
+            smallest = result.blob.size < smallest.blob.size ? result : smallest;
+            high = mid - 1;
+          }
+        }
+      }
+
+      if (best || !allowResize || attempt === MAX_BUDGET_RESIZES) {
+        const chosen = best || smallest;
+        return {
+          blob: chosen.blob,
+          settings: { ...settings, quality: chosen.quality },
+          width,
+          height,
+          withinBudget: best !== null,
+        };
+      }
+
+      // File size scales roughly with pixel count
+      const factor = Math.min(0.9, Math.sqrt(maxBytes / smallest.blob.size) * 0.95);
+      width = Math.max(1, Math.round(width * factor));
+      height = Math.max(1, Math.round(height * factor));
+    } finally {
+      releaseCanvas(canvas);
+    }
+  }
+};
+
+/**
+ * Short human-readable summary, e.g. "AVIF Q60 4:4:4" or "WebP lossless".
+ */
+export const describeEncoder = (settings: EncoderSettings): string => {
+  const encoder = IMAGE_ENCODERS[settings.format];
+  const parts = [encoder.label];
+  if (encoder.losslessOption && settings.lossless) {
+    parts.push('lossless');
+  } else if (encoder.lossy) {
+    parts.push(`Q${settings.quality}`);
+    if (encoder.chromaOption) parts.push(settings.chroma === '444' ? '4:4:4' : '4:2:0');
+  }
+  if (encoder.progressiveOption && settings.progressive) parts.push('progressive');
+  return parts.join(' ');
+};
+
+/**
+ * Filename tag for the quality, e.g. "q85" or "lossless"; empty for always-lossless formats.
+ */
+export const encoderFileTag = (settings: EncoderSettings): string => {
+  const encoder = IMAGE_ENCODERS[settings.format];
+  if (!encoder.lossy) return '';
+  return encoder.losslessOption && settings.lossless ? 'lossless' : `q${settings.quality}`;
+};
@@ -0,0 +1,81 @@
+import { ExportOptions, ResponsiveSetOptions, DEFAULT_PAPER_FORMATS, DEFAULT_WEB_PRESETS } from '../types';
+import { isEncoderSettings, isImageFormat } from './encoders';
+import { isPaperFormat } from './paperFormats';
+import { isWebPreset } from './webPresets';
+import { CMYK_PROFILES, LEGACY_CMYK_PROFILE_IDS } from './colorManagement';
+
+// Default per-file settings (Resize 50% only)
+export const DEFAULT_OPTIONS: ExportOptions = {
+  includePdf: false,
+  paperFormats: DEFAULT_PAPER_FORMATS,
+  orientation: 'portrait',
+  printerMarks: false,
+  colorMode: 'rgb',
+  cmykProfile: 'COATED',
+  includeWebpFixed: false,
+  webPresets: DEFAULT_WEB_PRESETS,
+  webEncoder: { format: 'webp', quality: 90, lossless: false, chroma: '420', progressive: false, maxSizeKb: null },
+  includeResize: true,
+  resizeScale: 50,
+  resizeEncoder: { format: 'webp', quality: 85, lossless: false, chroma: '420', progressive: false, maxSizeKb: null },
+  includeResponsive: false,
+  responsive: { widths: [320, 640, 1280, 1920], formats: ['avif', 'webp'], quality: 75 }
+};
+
+const readBoolean = (value: unknown) => typeof value === 'boolean' ? value : null;
+
+const readPercent = (value: unknown) =>
+  typeof value === 'number' && value >= 1 && value <= 100 ? value : null;
+
+const readResponsive = (value: unknown): ResponsiveSetOptions | null => {
+  if (!value || typeof value !== 'object') return null;
+  const responsive = value as Record<string, unknown>;
+  const quality = readPercent(responsive.quality);
+  if (!Array.isArray(responsive.widths) || !Array.isArray(responsive.formats) || quality === null) return null;
+  return {
+    widths: responsive.widths.filter((width): width is number => typeof width === 'number' && isFinite(width) && width > 0),
+    formats: responsive.formats.filter(isImageFormat),
+    quality,
+  };
+};
+
+// One reader per option: the value if it has the right shape, otherwise null
+const OPTION_READERS: { [K in keyof ExportOptions]: (value: unknown) => ExportOptions[K] | null } = {
+  includePdf: readBoolean,
+  paperFormats: value => Array.isArray(value) ? value.filter(isPaperFormat) : null,
+  orientation: value => value === 'portrait' || value === 'landscape' || value === 'auto' ? value : null,
+  printerMarks: readBoolean,
+  colorMode: value => value === 'rgb' || value === 'cmyk' ? value : null,
+  cmykProfile: value => {
+    if (typeof value !== 'string') return null;
+    const id = Object.prototype.hasOwnProperty.call(LEGACY_CMYK_PROFILE_IDS, value) ? LEGACY_CMYK_PROFILE_IDS[value] : value;
+    return Object.prototype.hasOwnProperty.call(CMYK_PROFILES, id) ? id : null;
+  },
+  includeWebpFixed: readBoolean,
+  webPresets: value => Array.isArray(value) ? value.filter(isWebPreset) : null,
+  webEncoder: value => isEncoderSettings(value) ? value : null,
+  includeResize: readBoolean,
+  resizeScale: readPercent,
+  resizeEncoder: value => isEncoderSettings(value) ? value : null,
+  includeResponsive: readBoolean,
+  responsive: readResponsive,
+};
+
+const setOption = <K extends keyof ExportOptions>(options: ExportOptions, key: K, value: ExportOptions[K] | null) => {
+  if (value !== null) options[key] = value;
+};
+
+/**
+ * Export options saved elsewhere (profiles, sessions, project files). Options that are missing
+ * or have the wrong shape fall back to DEFAULT_OPTIONS, and malformed list entries are dropped,
+ * so a damaged or older file can't break rendering.
+ */
+export const readExportOptions = (saved: unknown): ExportOptions => {
+  const options = { ...DEFAULT_OPTIONS };
+  if (!saved || typeof saved !== 'object') return options;
+  const source = saved as Record<string, unknown>;
+  (Object.keys(OPTION_READERS) as (keyof ExportOptions)[]).forEach(key => {
+    setOption(options, key, OPTION_READERS[key](source[key]));
+  });
+  return options;
+};
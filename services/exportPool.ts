@@ -0,0 +1,175 @@
+import { FileCrops, ExportOptions, ExportProgress, GeneratedFile, RenderedFile } from '../types';
+import { processExports, ExportHooks, createAbortError } from './pdfService';
+
+export interface ExportJob {
+  file: File;
+  crops: FileCrops;
+  baseName: string;
+  options: ExportOptions;
+}
+
+export type ExportWorkerRequest =
+  | { type: 'run'; id: number; job: ExportJob }
+  | { type: 'cancel'; id: number };
+
+export type ExportWorkerResponse =
+  | { type: 'progress'; id: number; progress: ExportProgress }
+  | { type: 'done'; id: number; files: RenderedFile[] }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; error: string };
+
+export interface ExportPool {
+  // Rejects with an AbortError when hooks.signal fires
+  run: (job: ExportJob, hooks?: ExportHooks) => Promise<GeneratedFile[]>;
+  terminate: () => void;
+}
+
+// Each print render holds a canvas of several hundred MB, so parallelism is kept small
+const MAX_WORKERS = 3;
+
+export const canUseExportWorkers = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+const withObjectUrls = (files: RenderedFile[]): GeneratedFile[] =>
+  files.map(file => ({ ...file, url: URL.createObjectURL(file.blob) }));
+
+// Fallback for browsers without OffscreenCanvas: same pipeline, one job at a time on the main thread
+const runOnMainThread = async (job: ExportJob, hooks: ExportHooks): Promise<GeneratedFile[]> => {
+  if (hooks.signal?.aborted) throw createAbortError();
+  hooks.onProgress?.({ stage: 'decode', fraction: 0 });
+  const objectUrl = URL.createObjectURL(job.file);
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error(`Could not load ${job.file.name}`));
+      img.src = objectUrl;
+    });
+    return await processExports(img, job.crops, job.baseName, job.options, job.file.size, hooks);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+/**
+ * Creates a bounded pool of export workers. Jobs queue until a worker is idle;
+ * workers are spawned lazily up to the pool size.
+ */
+export const createExportPool = (
+  size: number = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1))
+): ExportPool => {
+  if (!canUseExportWorkers()) {
+    let chain: Promise<unknown> = Promise.resolve();
+    return {
+      run: (job, hooks = {}) => {
+        const result = chain.then(() => runOnMainThread(job, hooks));
+        chain = result.catch(() => undefined);
+        return result;
+      },
+      terminate: () => {},
+    };
+  }
+
+  const workers: Worker[] = [];
+  const idle: Worker[] = [];
+  const queue: {
+    id: number;
+    job: ExportJob;
+    hooks: ExportHooks;
+    resolve: (files: GeneratedFile[]) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  const inFlight = new Map<Worker, (typeof queue)[number]>();
+  let nextId = 0;
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      let worker = idle.pop();
+      if (!worker && workers.length < size) {
+        worker = spawn();
+      }
+      if (!worker) return;
+      const task = queue.shift()!;
+      inFlight.set(worker, task);
+      const request: ExportWorkerRequest = { type: 'run', id: task.id, job: task.job };
+      worker.postMessage(request);
+    }
+  };
+
+  const release = (worker: Worker) => {
+    inFlight.delete(worker);
+    idle.push(worker);
+    dispatch();
+  };
+
+  const spawn = () => {
+    const worker = new Worker(new URL('./exportWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+      const task = inFlight.get(worker);
+      const response = event.data;
+      if (!task || task.id !== response.id) return;
+      switch (response.type) {
+        case 'progress':
+          task.hooks.onProgress?.(response.progress);
+          return;
+        case 'done':
+          task.resolve(withObjectUrls(response.files));
+          break;
+        case 'cancelled':
+          task.reject(createAbortError());
+          break;
+        case 'error':
+          task.reject(new Error(response.error));
+          break;
+      }
+      release(worker);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      const task = inFlight.get(worker);
+      task?.reject(new Error(event.message || 'Export worker crashed'));
+      // A crashed worker may hold a broken state; replace it
+      inFlight.delete(worker);
+      workers.splice(workers.indexOf(worker), 1);
+      worker.terminate();
+      dispatch();
+    };
+    workers.push(worker);
+    return worker;
+  };
+
+  return {
+    run: (job, hooks = {}) => new Promise((resolve, reject) => {
+      const { signal } = hooks;
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      const task = { id: nextId++, job, hooks, resolve, reject };
+      // Queued jobs are dropped right away; running ones are asked to stop at their next checkpoint
+      signal?.addEventListener('abort', () => {
+        const queued = queue.indexOf(task);
+        if (queued >= 0) {
+          queue.splice(queued, 1);
+          reject(createAbortError());
+          return;
+        }
+        inFlight.forEach((running, worker) => {
+          if (running !== task) return;
+          const request: ExportWorkerRequest = { type: 'cancel', id: task.id };
+          worker.postMessage(request);
+        });
+      }, { once: true });
+      queue.push(task);
+      dispatch();
+    }),
+    terminate: () => {
+      queue.splice(0).forEach(task => task.reject(new Error('Export pool terminated')));
+      inFlight.forEach(task => task.reject(new Error('Export pool terminated')));
+      inFlight.clear();
+      workers.forEach(worker => worker.terminate());
+      workers.length = 0;
+      idle.length = 0;
+    },
+  };
+};
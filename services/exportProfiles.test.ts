@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ExportOptions, PAPER_FORMATS } from '../types';
+import { DEFAULT_OPTIONS } from './exportOptions';
+import { createExportProfile, parseExportProfiles, serializeExportProfiles } from './exportProfiles';
+
+const OPTIONS: ExportOptions = {
+  ...DEFAULT_OPTIONS,
+  includePdf: true,
+  paperFormats: [PAPER_FORMATS.A4],
+  webPresets: [],
+  resizeScale: 40,
+};
+
+describe('parseExportProfiles', () => {
+  it('reads back a serialized file', () => {
+    const profile = createExportProfile('Gallery', OPTIONS, 'Show_{n}');
+    expect(parseExportProfiles(serializeExportProfiles([profile]))).toEqual([profile]);
+  });
+
+  it('accepts a single profile', () => {
+    const [profile] = parseExportProfiles(JSON.stringify({ id: 'p1', name: 'Single', options: OPTIONS }));
+    expect(profile).toEqual({ id: 'p1', name: 'Single', options: OPTIONS, namingTemplate: '' });
+  });
+
+  it('fills in options that are missing', () => {
+    const [profile] = parseExportProfiles(JSON.stringify({ id: 'p1', name: 'Old', options: { includePdf: true } }));
+    expect(profile.options).toEqual({ ...DEFAULT_OPTIONS, includePdf: true });
+  });
+
+  it('replaces option fields of the wrong shape with the defaults', () => {
+    const options = { ...OPTIONS, paperFormats: 'A4', webPresets: { id: 'x' }, responsive: 3, webEncoder: {}, resizeEncoder: null };
+    const [profile] = parseExportProfiles(JSON.stringify({ id: 'p1', name: 'Damaged', options }));
+    expect(profile.options).toEqual({ ...DEFAULT_OPTIONS, includePdf: true, resizeScale: 40 });
+  });
+
+  it('drops malformed paper formats and web presets', () => {
+    const options = {
+      ...OPTIONS,
+      paperFormats: [null, PAPER_FORMATS.A4, { id: 'half', label: 'Half' }, { ...PAPER_FORMATS.A3, widthCm: '29.7' }],
+      webPresets: [{ id: 'w', label: 'Wide', widthPx: 1200, heightPx: 630, custom: true }, { id: 'x', widthPx: 10 }, 7],
+    };
+    const [profile] = parseExportProfiles(JSON.stringify({ id: 'p1', name: 'Mixed', options }));
+    expect(profile.options.paperFormats).toEqual([PAPER_FORMATS.A4]);
+    expect(profile.options.webPresets).toEqual([{ id: 'w', label: 'Wide', widthPx: 1200, heightPx: 630, custom: true }]);
+  });
+
+  it('keeps the CMYK separation chosen under its old id', () => {
+    const [profile] = parseExportProfiles(JSON.stringify({ id: 'p1', name: 'US', options: { cmykProfile: 'GRACOL' } }));
+    expect(profile.options.cmykProfile).toBe('COATED_US');
+  });
+
+  it('rejects encoder settings with an unknown format', () => {
+    const options = { ...OPTIONS, webEncoder: { ...OPTIONS.webEncoder, format: 'gif' } };
+    const [profile] = parseExportProfiles(JSON.stringify({ id: 'p1', name: 'Gif', options }));
+    expect(profile.options.webEncoder).toEqual(DEFAULT_OPTIONS.webEncoder);
+  });
+
+  it('skips entries that are not profiles', () => {
+    const json = JSON.stringify({
+      format: 'aipapi-export-profiles',
+      version: 1,
+      profiles: [null, 'text', { id: 1, name: 'Bad id', options: {} }, { id: 'ok', name: 'Ok', options: {} }],
+    });
+    expect(parseExportProfiles(json).map(p => p.id)).toEqual(['ok']);
+  });
+
+  it('rejects files without profiles, newer files and invalid JSON', () => {
+    expect(() => parseExportProfiles('{"format":"aipapi-export-profiles","version":1,"profiles":{}}'))
+      .toThrow('No export profiles found in the file.');
+    expect(() => parseExportProfiles('[]')).toThrow('No export profiles found in the file.');
+    expect(() => parseExportProfiles('{"format":"aipapi-export-profiles","version":2,"profiles":[]}'))
+      .toThrow('newer version');
+    expect(() => parseExportProfiles('{')).toThrow('The file is not valid JSON.');
+  });
+});
+
+describe('createExportProfile', () => {
+  it('gives profiles saved in the same millisecond different ids', () => {
+    const ids = new Set(Array.from({ length: 20 }, () => createExportProfile('Same', OPTIONS, '').id));
+    expect(ids.size).toBe(20);
+  });
+});
@@ -0,0 +1,132 @@
+import { ExportOptions } from '../types';
+import { readExportOptions } from './exportOptions';
+
+const EXPORT_PROFILES_KEY = 'aipapi.exportProfiles';
+const DEFAULT_PROFILE_KEY = 'aipapi.defaultExportProfile';
+// Marks shared profile files; bump the version if the file layout changes
+const PROFILES_FILE_FORMAT = 'aipapi-export-profiles';
+const PROFILES_FILE_VERSION = 1;
+
+/**
+ * A saved delivery setup: every output option plus how the files are named.
+ */
+export interface ExportProfile {
+  id: string;
+  name: string;
+  options: ExportOptions;
+  namingTemplate: string; // "{name}" = original name, "{n}" = position in the batch; empty keeps the original names
+}
+
+export const NAMING_TOKENS = ['{name}', '{n}'];
+
+/**
+ * Output base name of a file under a naming template, e.g. "Summer_{n}" -> "Summer_3".
+ */
+export const applyNamingTemplate = (template: string, originalName: string, index: number): string => {
+  const name = template.trim()
+    ? template.split('{name}').join(originalName).split('{n}').join(String(index + 1)).trim()
+    : originalName;
+  return name || originalName;
+};
+
+export const createExportProfile = (name: string, options: ExportOptions, namingTemplate: string): ExportProfile => ({
+  id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: name.trim() || 'Untitled profile',
+  options,
+  namingTemplate: namingTemplate.trim(),
+});
+
+interface SavedProfile {
+  id: string;
+  name: string;
+  options: Record<string, unknown>;
+  namingTemplate?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isSavedProfile = (value: unknown): value is SavedProfile =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && isObject(value.options);
+
+// Options are checked field by field; anything malformed falls back to the defaults
+const readSavedProfile = (profile: SavedProfile): ExportProfile => ({
+  id: profile.id,
+  name: profile.name,
+  options: readExportOptions(profile.options),
+  namingTemplate: typeof profile.namingTemplate === 'string' ? profile.namingTemplate : '',
+});
+
+export const loadExportProfiles = (): ExportProfile[] => {
+  try {
+    const raw = localStorage.getItem(EXPORT_PROFILES_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(data) ? data.filter(isSavedProfile).map(readSavedProfile) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveExportProfiles = (profiles: ExportProfile[]) => {
+  try {
+    localStorage.setItem(EXPORT_PROFILES_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.warn('Could not persist export profiles', error);
+  }
+};
+
+// Profile applied to new uploads instead of the built-in defaults
+export const loadDefaultProfileId = (): string | null => {
+  try {
+    return localStorage.getItem(DEFAULT_PROFILE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveDefaultProfileId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(DEFAULT_PROFILE_KEY, id);
+    else localStorage.removeItem(DEFAULT_PROFILE_KEY);
+  } catch (error) {
+    console.warn('Could not persist the default export profile', error);
+  }
+};
+
+/**
+ * JSON file for sharing profiles with the team.
+ */
+export const serializeExportProfiles = (profiles: ExportProfile[]): string =>
+  JSON.stringify({ format: PROFILES_FILE_FORMAT, version: PROFILES_FILE_VERSION, profiles }, null, 2);
+
+/**
+ * Reads a shared profiles file. Accepts a single profile as well; options added since the file
+ * was written, or saved with the wrong shape, get their defaults.
+ */
+export const parseExportProfiles = (json: string): ExportProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const file = isObject(data) && data.format === PROFILES_FILE_FORMAT ? data : null;
+  if (file && typeof file.version === 'number' && file.version > PROFILES_FILE_VERSION) {
+    throw new Error('These profiles were saved by a newer version of the app.');
+  }
+  const list = file ? file.profiles : [data];
+  if (!Array.isArray(list)) throw new Error('No export profiles found in the file.');
+
+  const profiles = list.filter(isSavedProfile);
+  if (profiles.length === 0) throw new Error('No export profiles found in the file.');
+  return profiles.map(readSavedProfile);
+};
+
+/**
+ * Adds imported profiles; a profile with the same id replaces the local copy, so re-importing
+ * an updated team file updates everyone's profiles.
+ */
+export const mergeExportProfiles = (existing: ExportProfile[], imported: ExportProfile[]): ExportProfile[] => [
+  ...existing.filter(profile => !imported.some(p => p.id === profile.id)),
+  ...imported,
+];
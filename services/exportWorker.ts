@@ -0,0 +1,47 @@
+import { renderExports, isAbortError } from './pdfService';
+import { ExportJob, ExportWorkerRequest, ExportWorkerResponse } from './exportPool';
+
+// One controller per running job, so the pool can cancel it by id
+const controllers = new Map<number, AbortController>();
+
+const post = (response: ExportWorkerResponse) => self.postMessage(response);
+
+/**
+ * Web Worker entry: decodes the source file into an ImageBitmap and runs the
+ * export pipeline on OffscreenCanvas, keeping the UI thread free.
+ */
+const runJob = async (id: number, job: ExportJob, signal: AbortSignal) => {
+  post({ type: 'progress', id, progress: { stage: 'decode', fraction: 0 } });
+  const bitmap = await createImageBitmap(job.file);
+  try {
+    return await renderExports(bitmap, job.crops, job.baseName, job.options, job.file.size, {
+      signal,
+      onProgress: (progress) => post({ type: 'progress', id, progress }),
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+self.onmessage = async (event: MessageEvent<ExportWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, job } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  try {
+    post({ type: 'done', id, files: await runJob(id, job, controller.signal) });
+  } catch (error) {
+    if (isAbortError(error)) {
+      post({ type: 'cancelled', id });
+    } else {
+      post({ type: 'error', id, error: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    controllers.delete(id);
+  }
+};
@@ -0,0 +1,136 @@
+import { CropState } from '../types';
+import { CropTarget } from './cropTargets';
+import { getImagePlacement } from './cropGeometry';
+import { getPrintDimensions } from './paperFormats';
+
+const GUIDE_SETTINGS_KEY = 'aipapi.guideSettings';
+
+// User-placed line across the crop frame
+export interface Guide {
+  id: string;
+  axis: 'vertical' | 'horizontal';
+  position: number; // Fraction of the frame width (vertical) or height (horizontal), bleed included
+}
+
+export interface GuideSettings {
+  safeMarginMm: number;      // Safe/text zone inside the trim of print targets; 0 hides it
+  safeMarginPercent: number; // Same for web targets, as % of the shorter side
+  thirds: boolean;           // Rule-of-thirds lines within the trim
+  centerLines: boolean;
+  snap: boolean;             // Image edges snap to trim, bleed, centre and user guides while dragging
+  guides: Guide[];
+}
+
+export const DEFAULT_GUIDE_SETTINGS: GuideSettings = {
+  safeMarginMm: 5,
+  safeMarginPercent: 5,
+  thirds: false,
+  centerLines: false,
+  snap: true,
+  guides: [],
+};
+
+// Snap distance in screen pixels
+export const SNAP_THRESHOLD_PX = 8;
+
+export const createGuide = (axis: Guide['axis'], position = 0.5): Guide => ({
+  id: `guide-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  axis,
+  position,
+});
+
+export const loadGuideSettings = (): GuideSettings => {
+  try {
+    const raw = localStorage.getItem(GUIDE_SETTINGS_KEY);
+    return raw ? { ...DEFAULT_GUIDE_SETTINGS, ...JSON.parse(raw) } : DEFAULT_GUIDE_SETTINGS;
+  } catch {
+    return DEFAULT_GUIDE_SETTINGS;
+  }
+};
+
+export const saveGuideSettings = (settings: GuideSettings) => {
+  try {
+    localStorage.setItem(GUIDE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not persist guide settings', error);
+  }
+};
+
+/**
+ * Distances of the trim line and the safe zone from the frame edge, in frame pixels.
+ * Web targets have no bleed, so their trim is the frame edge. `safe` is null when the zone is off.
+ */
+export const getFrameInsets = (
+  target: CropTarget,
+  frameWidth: number,
+  frameHeight: number,
+  settings: GuideSettings
+): { bleed: number; safe: number | null } => {
+  if (target.format) {
+    const pxPerCm = frameWidth / getPrintDimensions(target.format).totalWidthCm;
+    const bleed = (target.format.bleedMm / 10) * pxPerCm;
+    return { bleed, safe: settings.safeMarginMm > 0 ? bleed + (settings.safeMarginMm / 10) * pxPerCm : null };
+  }
+  const safe = (settings.safeMarginPercent / 100) * Math.min(frameWidth, frameHeight);
+  return { bleed: 0, safe: safe > 0 ? safe : null };
+};
+
+// Positions in frame pixels that the image edges snap to
+export interface SnapLines {
+  x: number[];
+  y: number[];
+}
+
+export const getSnapLines = (frameWidth: number, frameHeight: number, bleed: number, guides: Guide[]): SnapLines => ({
+  x: [
+    0, bleed, frameWidth / 2, frameWidth - bleed, frameWidth,
+    ...guides.filter(g => g.axis === 'vertical').map(g => g.position * frameWidth),
+  ],
+  y: [
+    0, bleed, frameHeight / 2, frameHeight - bleed, frameHeight,
+    ...guides.filter(g => g.axis === 'horizontal').map(g => g.position * frameHeight),
+  ],
+});
+
+// Smallest move that puts one of the edges on one of the lines, if within the threshold
+const nearestSnap = (edges: number[], lines: number[], threshold: number): { offset: number; line: number } | null => {
+  let best: { offset: number; line: number } | null = null;
+  for (const edge of edges) {
+    for (const line of lines) {
+      const offset = line - edge;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, line };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Moves the crop so the nearest image edge (or the image centre) lies on a snap line.
+ * Straightened images have no axis-aligned edges and are left as they are.
+ * Returns the lines that were snapped to, in frame pixels, for highlighting.
+ */
+export const snapCrop = (
+  crop: CropState,
+  imageWidth: number,
+  imageHeight: number,
+  frameWidth: number,
+  frameHeight: number,
+  lines: SnapLines,
+  threshold: number
+): { crop: CropState; x: number | null; y: number | null } => {
+  if (crop.straighten !== 0) return { crop, x: null, y: null };
+  const placement = getImagePlacement(crop, imageWidth, imageHeight, frameWidth, frameHeight);
+  const snapX = nearestSnap([placement.x, placement.x + placement.width / 2, placement.x + placement.width], lines.x, threshold);
+  const snapY = nearestSnap([placement.y, placement.y + placement.height / 2, placement.y + placement.height], lines.y, threshold);
+  return {
+    crop: {
+      ...crop,
+      centerX: crop.centerX - (snapX ? snapX.offset / placement.width : 0),
+      centerY: crop.centerY - (snapY ? snapY.offset / placement.height : 0),
+    },
+    x: snapX ? snapX.line : null,
+    y: snapY ? snapY.line : null,
+  };
+};
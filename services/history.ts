@@ -0,0 +1,78 @@
+import { ExportOptions, FileCrops, PaperFormat, WebPreset } from '../types';
+
+// Undo steps kept; older ones are dropped
+const MAX_HISTORY = 100;
+// Edits of the same group closer together than this become one undo step (typing, wheel zoom, nudging)
+const GROUP_WINDOW_MS = 1000;
+
+// The undoable part of the batch. The custom sizes are included so settings that select one
+// are never restored without it.
+export interface EditSnapshot {
+  crops: FileCrops[];
+  fileNames: string[];
+  fileSettings: ExportOptions[];
+  customFormats: PaperFormat[];
+  customPresets: WebPreset[];
+}
+
+export interface EditHistory {
+  past: EditSnapshot[];   // Oldest first
+  future: EditSnapshot[]; // Next redo first
+  lastGroup: string | null;
+  lastTime: number;
+}
+
+export const createEditHistory = (): EditHistory => ({ past: [], future: [], lastGroup: null, lastTime: 0 });
+
+/**
+ * Records the state before an edit. An edit in the same group as the previous one,
+ * within the grouping window, extends that undo step instead of adding a new one.
+ */
+export const recordEdit = (
+  history: EditHistory,
+  before: EditSnapshot,
+  group: string | null = null,
+  now = Date.now()
+): EditHistory => {
+  if (group !== null && group === history.lastGroup && now - history.lastTime < GROUP_WINDOW_MS) {
+    return { ...history, lastTime: now };
+  }
+  return {
+    past: [...history.past, before].slice(-MAX_HISTORY),
+    future: [],
+    lastGroup: group,
+    lastTime: now,
+  };
+};
+
+/**
+ * Steps back. `present` goes onto the redo stack; returns null when there is nothing to undo.
+ */
+export const undoEdit = (history: EditHistory, present: EditSnapshot): { history: EditHistory; snapshot: EditSnapshot } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [present, ...history.future],
+      lastGroup: null,
+      lastTime: 0,
+    },
+    snapshot: history.past[history.past.length - 1],
+  };
+};
+
+/**
+ * Re-applies the last undone edit; returns null when there is nothing to redo.
+ */
+export const redoEdit = (history: EditHistory, present: EditSnapshot): { history: EditHistory; snapshot: EditSnapshot } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: {
+      past: [...history.past, present].slice(-MAX_HISTORY),
+      future: history.future.slice(1),
+      lastGroup: null,
+      lastTime: 0,
+    },
+    snapshot: history.future[0],
+  };
+};
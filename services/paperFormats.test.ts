@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PAPER_FORMATS } from '../types';
+import { createCustomFormat, loadCustomFormats } from './paperFormats';
+
+const stubStorage = (value: string | null) => {
+  vi.stubGlobal('localStorage', { getItem: () => value });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createCustomFormat', () => {
+  it('gives formats created in the same millisecond different ids', () => {
+    const ids = new Set(Array.from({ length: 20 }, () => createCustomFormat('Same', 10, 15, 3).id));
+    expect(ids.size).toBe(20);
+  });
+});
+
+describe('loadCustomFormats', () => {
+  it('keeps valid formats and drops malformed entries', () => {
+    const custom = createCustomFormat('Postcard', 10, 15, 2);
+    stubStorage(JSON.stringify([custom, null, { id: 'x', label: 'No size' }, { ...PAPER_FORMATS.A4, widthCm: -1 }]));
+    expect(loadCustomFormats()).toEqual([custom]);
+  });
+
+  it('returns nothing for storage that is not a list', () => {
+    stubStorage('{"id":"custom"}');
+    expect(loadCustomFormats()).toEqual([]);
+    stubStorage('not json');
+    expect(loadCustomFormats()).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { PaperFormat, PAPER_FORMATS, DPI_300_PPCM, Orientation, PageOrientation } from '../types';
+
+const CUSTOM_FORMATS_KEY = 'aipapi.customPaperFormats';
+
+export interface PrintDimensions {
+  bleedCm: number;
+  totalWidthCm: number;  // Trim + bleed on both sides
+  totalHeightCm: number;
+  widthPx: number;       // At 300 DPI
+  heightPx: number;
+}
+
+/**
+ * Computes the full-bleed size of a paper format in cm and in 300 DPI pixels.
+ */
+export const getPrintDimensions = (format: PaperFormat): PrintDimensions => {
+  const bleedCm = format.bleedMm / 10;
+  const totalWidthCm = format.widthCm + (bleedCm * 2);
+  const totalHeightCm = format.heightCm + (bleedCm * 2);
+
+  return {
+    bleedCm,
+    totalWidthCm,
+    totalHeightCm,
+    widthPx: Math.ceil(totalWidthCm * DPI_300_PPCM),
+    heightPx: Math.ceil(totalHeightCm * DPI_300_PPCM),
+  };
+};
+
+// Rounds to at most 2 decimals and drops trailing zeros (60.00 -> "60", 84.70 -> "84.7")
+const formatNumber = (value: number) => String(parseFloat(value.toFixed(2)));
+
+/**
+ * Resolves 'auto' to a concrete orientation. Square images stay portrait.
+ */
+export const resolveOrientation = (
+  orientation: Orientation,
+  imageWidth: number,
+  imageHeight: number
+): PageOrientation => {
+  if (orientation !== 'auto') return orientation;
+  return imageWidth > imageHeight ? 'landscape' : 'portrait';
+};
+
+/**
+ * Returns the format rotated to the given orientation (registry entries are portrait).
+ */
+export const orientFormat = (format: PaperFormat, orientation: PageOrientation): PaperFormat => {
+  const isLandscape = format.widthCm > format.heightCm;
+  if ((orientation === 'landscape') === isLandscape) return format;
+  return { ...format, widthCm: format.heightCm, heightCm: format.widthCm };
+};
+
+/**
+ * Human readable size label, e.g. "60 x 84.7 cm (incl. 3mm bleed)".
+ */
+export const formatPaperDimensions = (format: PaperFormat): string => {
+  const { totalWidthCm, totalHeightCm } = getPrintDimensions(format);
+  const size = `${formatNumber(totalWidthCm)} x ${formatNumber(totalHeightCm)} cm`;
+  return format.bleedMm > 0 ? `${size} (incl. ${formatNumber(format.bleedMm)}mm bleed)` : size;
+};
+
+/**
+ * Short trim size label for the sidebar, e.g. "59.4 x 84.1 cm".
+ */
+export const formatTrimSize = (format: PaperFormat): string =>
+  `${formatNumber(format.widthCm)} x ${formatNumber(format.heightCm)} cm`;
+
+/**
+ * Builds a user-defined format. Width and height are stored portrait-first
+ * so custom sizes behave like the built-in registry entries.
+ */
+export const createCustomFormat = (label: string, widthCm: number, heightCm: number, bleedMm: number): PaperFormat => ({
+  id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  label: label.trim() || `${formatNumber(widthCm)}x${formatNumber(heightCm)}`,
+  widthCm: Math.min(widthCm, heightCm),
+  heightCm: Math.max(widthCm, heightCm),
+  bleedMm: Math.max(0, bleedMm),
+  custom: true,
+});
+
+const isSize = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value >= 0;
+
+// Shape check for formats read from storage or imported files
+export const isPaperFormat = (value: unknown): value is PaperFormat => {
+  if (!value || typeof value !== 'object') return false;
+  const format = value as Record<string, unknown>;
+  return typeof format.id === 'string' && typeof format.label === 'string' &&
+    isSize(format.widthCm) && format.widthCm > 0 &&
+    isSize(format.heightCm) && format.heightCm > 0 &&
+    isSize(format.bleedMm) &&
+    (format.custom === undefined || typeof format.custom === 'boolean');
+};
+
+export const getAllPaperFormats = (customFormats: PaperFormat[]): PaperFormat[] => [
+  ...Object.values(PAPER_FORMATS),
+  ...customFormats,
+];
+
+export const loadCustomFormats = (): PaperFormat[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_FORMATS_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(data) ? data.filter(isPaperFormat) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomFormats = (formats: PaperFormat[]) => {
+  try {
+    localStorage.setItem(CUSTOM_FORMATS_KEY, JSON.stringify(formats));
+  } catch (error) {
+    console.warn('Could not persist custom paper formats', error);
+  }
+};
@@ -1,163 +1,119 @@
 import jsPDF from 'jspdf';
 import JSZip from 'jszip';
-import { CropState, DPI_300_PPCM, SPECS, GeneratedFile, BatchResult, ExportOptions } from '../types';
+import { CropState, FileCrops, WebPreset, EncoderSettings, GeneratedFile, RenderedFile, BatchResult, ExportOptions, ExportProgress, ExportStage } from '../types';
+import {
+  RenderSource,
+  RenderCanvas,
+  CanvasTile,
+  createRenderCanvas,
+  get2dContext,
+  canvasToBlob,
+  getSourceSize,
+  releaseCanvas,
+  planCanvasTiles
+} from './canvasUtils';
+import { drawPrinterMarks, PRINTER_MARKS_MARGIN_CM } from './printMarks';
+import { applyPrepressProfile, validatePdfBoxes } from './prepress';
+import { CMYK_PROFILES } from './colorManagement';
+import { encodeCmykCanvas, addCmykImage } from './cmykImage';
+import { IMAGE_ENCODERS, BudgetResult, encodeWithinBudget, describeEncoder, encoderFileTag } from './encoders';
+import { presetFileSuffix } from './webPresets';
+import { ResponsiveVariant, planResponsiveWidths, sha256Hex, buildPictureSnippet, buildManifest } from './responsiveSet';
+import { getPrintDimensions, formatPaperDimensions, orientFormat } from './paperFormats';
+import { getTargetCrop, printTargetKey, webTargetKey, resolvePrintOrientation } from './cropTargets';
+import { drawCrop } from './cropGeometry';
+import { rectifyImage } from './perspective';
 
 /**
- * Creates an off-screen canvas, draws the cropped image at high resolution,
- * and returns the data as Uint8Array (to avoid large Base64 strings in memory).
+ * Creates an off-screen canvas and draws one tile of the cropped image at high resolution.
+ * The tile is a region of the full target; the whole output is never held in a single canvas.
  */
-const generateHighResCanvas = (
-  image: HTMLImageElement,
+const drawHighResTile = (
+  image: RenderSource,
   crop: CropState,
   targetWidthPx: number,
   targetHeightPx: number,
-  referenceWidthPx: number // The width of the "safe zone" or "bleed box" in the preview
-): Promise<Uint8Array> => {
-  return new Promise((resolve, reject) => {
-    const canvas = document.createElement('canvas');
-    canvas.width = targetWidthPx;
-    canvas.height = targetHeightPx;
-    const ctx = canvas.getContext('2d');
+  tile: CanvasTile
+): RenderCanvas => {
+    const canvas = createRenderCanvas(tile.width, tile.height);
+    const ctx = get2dContext(canvas);
+    const imageSize = getSourceSize(image);
 
     if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
+        throw new Error('Could not get canvas context');
     }
 
     // Quality settings
     ctx.imageSmoothingEnabled = true;
     ctx.imageSmoothingQuality = 'high';
 
-    // 1. Calculate the Ratio between Output and Preview
-    const ratio = targetWidthPx / referenceWidthPx;
-
-    // 2. Calculate Draw Dimensions
-    // In Editor: drawW = image.naturalWidth * (referenceWidthPx / image.naturalWidth) * crop.scale
-    // Simplified: drawW = referenceWidthPx * crop.scale
-    // Therefore in High Res:
-    const scaledImageWidth = (referenceWidthPx * crop.scale) * ratio;
-    const scaledImageHeight = (scaledImageWidth / image.naturalWidth) * image.naturalHeight;
-
-    // 3. Calculate Draw Position
-    const centerX = canvas.width / 2;
-    const centerY = canvas.height / 2;
-
-    const offsetX = crop.x * ratio;
-    const offsetY = crop.y * ratio;
-
-    const drawX = centerX - (scaledImageWidth / 2) + offsetX;
-    const drawY = centerY - (scaledImageHeight / 2) + offsetY;
-
     // Fill background white (safety)
     ctx.fillStyle = '#ffffff';
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-    // Draw the image
-    ctx.drawImage(image, drawX, drawY, scaledImageWidth, scaledImageHeight);
-
-    // Optimize: Convert to Blob -> ArrayBuffer -> Uint8Array
-    // This bypasses strict string length limits associated with .toDataURL() base64 strings
-    canvas.toBlob(
-        (blob) => {
-            if (!blob) {
-                reject(new Error('Canvas to Blob failed'));
-                return;
-            }
-            const reader = new FileReader();
-            reader.onload = () => {
-                if (reader.result instanceof ArrayBuffer) {
-                    resolve(new Uint8Array(reader.result));
-                } else {
-                    reject(new Error('Failed to convert blob to array buffer'));
-                }
-            };
-            reader.onerror = () => reject(new Error('FileReader error during canvas export'));
-            reader.readAsArrayBuffer(blob);
-        },
-        'image/jpeg',
-        0.95
-    );
-  });
+    // Same drawing as the editor preview, for the full target shifted into the tile
+    ctx.translate(-tile.x, -tile.y);
+    drawCrop(ctx, image, crop, imageSize.width, imageSize.height, targetWidthPx, targetHeightPx);
+
+    return canvas;
+};
+
+/**
+ * Encodes the canvas as an RGB JPEG and returns the data as Uint8Array
+ * (to avoid large Base64 strings in memory).
+ */
+const canvasToJpegBytes = async (canvas: RenderCanvas): Promise<Uint8Array> => {
+  // Blob -> ArrayBuffer bypasses strict string length limits associated with .toDataURL() base64 strings
+  const blob = await canvasToBlob(canvas, 'image/jpeg', 0.95);
+  return new Uint8Array(await blob.arrayBuffer());
 };
 
-const generateWebPCanvas = (
-  image: HTMLImageElement,
+/**
+ * Renders the web crop for a pixel preset at the preset's own aspect ratio.
+ */
+const drawWebCrop = (
+  image: RenderSource,
   crop: CropState,
-  referenceWidthPx: number,
-): Promise<Blob> => {
-  return new Promise((resolve, reject) => {
-    const { widthPx, heightPx } = SPECS.WebP;
-    const canvas = document.createElement('canvas');
-    canvas.width = widthPx;
-    canvas.height = heightPx;
-    const ctx = canvas.getContext('2d');
+  preset: WebPreset
+): RenderCanvas => {
+    const { widthPx, heightPx } = preset;
+    const canvas = createRenderCanvas(widthPx, heightPx);
+    const ctx = get2dContext(canvas);
+    const imageSize = getSourceSize(image);
 
-    if (!ctx) return reject('No Context');
+    if (!ctx) throw new Error('No Context');
 
     ctx.imageSmoothingEnabled = true;
     ctx.imageSmoothingQuality = 'high';
 
-    const ratio = widthPx / referenceWidthPx;
-    
-    // Recalculate dimensions for this target
-    const scaledImageWidth = (referenceWidthPx * crop.scale) * ratio;
-    const scaledImageHeight = (scaledImageWidth / image.naturalWidth) * image.naturalHeight;
-
-    const centerX = canvas.width / 2;
-    const centerY = canvas.height / 2;
-    
-    const offsetX = crop.x * ratio;
-    const offsetY = crop.y * ratio;
-
-    const drawX = centerX - (scaledImageWidth / 2) + offsetX;
-    const drawY = centerY - (scaledImageHeight / 2) + offsetY;
-
     ctx.fillStyle = '#ffffff';
     ctx.fillRect(0, 0, widthPx, heightPx);
     
-    ctx.drawImage(image, drawX, drawY, scaledImageWidth, scaledImageHeight);
+    drawCrop(ctx, image, crop, imageSize.width, imageSize.height, widthPx, heightPx);
 
-    canvas.toBlob((blob) => {
-      if (blob) resolve(blob);
-      else reject('Blob creation failed');
-    }, 'image/webp', 0.9);
-  });
+    return canvas;
 };
 
 /**
- * Resizes the original image (ignoring crop) to a specific percentage scale.
- * Output is WebP at 0.85 quality.
+ * Draws the original image (ignoring crop) scaled to the given size.
  */
-const generateResizedWebP = (
-    image: HTMLImageElement,
-    scalePercentage: number
-): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-        // Calculate new dimensions
-        // scalePercentage is 1-100
-        const scale = Math.max(1, Math.min(100, scalePercentage)) / 100;
-        const targetWidth = Math.round(image.naturalWidth * scale);
-        const targetHeight = Math.round(image.naturalHeight * scale);
-
-        const canvas = document.createElement('canvas');
-        canvas.width = targetWidth;
-        canvas.height = targetHeight;
-        const ctx = canvas.getContext('2d');
-
-        if (!ctx) return reject('No Context');
-
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-
-        // Draw original image scaled
-        ctx.drawImage(image, 0, 0, targetWidth, targetHeight);
-
-        // Export as WebP, Quality 0.85 (Lossy)
-        canvas.toBlob((blob) => {
-            if (blob) resolve(blob);
-            else reject('Blob creation failed');
-        }, 'image/webp', 0.85);
-    });
+const drawResized = (
+    image: RenderSource,
+    targetWidth: number,
+    targetHeight: number
+): RenderCanvas => {
+    const canvas = createRenderCanvas(targetWidth, targetHeight);
+    const ctx = get2dContext(canvas);
+
+    if (!ctx) throw new Error('No Context');
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    // Draw original image scaled
+    ctx.drawImage(image, 0, 0, targetWidth, targetHeight);
+
+    return canvas;
 }
 
 function formatBytes(bytes: number, decimals = 1) {
@@ -169,101 +125,207 @@ function formatBytes(bytes: number, decimals = 1) {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 }
 
-export const processExports = async (
-  image: HTMLImageElement,
-  crop: CropState,
-  referenceWidthPx: number, // PASSED FROM EDITOR LAYOUT
-  baseFilename: string,
-  options: ExportOptions,
-  originalFileSize: number = 0
-): Promise<GeneratedFile[]> => {
-  const baseName = baseFilename;
-  const results: GeneratedFile[] = [];
+// "US Letter" -> "US_Letter"
+const toFileSuffix = (label: string) => label.trim().replace(/\s+/g, '_').replace(/[^\w-]/g, '');
 
-  // --- 1. Generate A1 PDF ---
-  if (options.includePdf) {
-    const a1BleedCm = SPECS.A1.bleedMm / 10;
-    const a1TotalWidthCm = SPECS.A1.widthCm + (a1BleedCm * 2);
-    const a1TotalHeightCm = SPECS.A1.heightCm + (a1BleedCm * 2);
-    
-    const a1WidthPx = Math.ceil(a1TotalWidthCm * DPI_300_PPCM);
-    const a1HeightPx = Math.ceil(a1TotalHeightCm * DPI_300_PPCM);
+// " · 200 KB budget met" / " · over 200 KB budget"; empty without a budget
+const budgetNote = (result: BudgetResult) => {
+  const { maxSizeKb } = result.settings;
+  if (!maxSizeKb) return '';
+  return result.withinBudget ? ` · ${maxSizeKb} KB budget met` : ` · over ${maxSizeKb} KB budget`;
+};
 
-    const a1Data = await generateHighResCanvas(image, crop, a1WidthPx, a1HeightPx, referenceWidthPx);
-    
-    const pdfA1 = new jsPDF({
-        orientation: 'p',
-        unit: 'cm',
-        format: [a1TotalWidthCm, a1TotalHeightCm],
-        compress: true
-    });
-    
-    pdfA1.addImage(a1Data, 'JPEG', 0, 0, a1TotalWidthCm, a1TotalHeightCm, undefined, 'FAST');
-    const blob = pdfA1.output('blob');
-
-    results.push({
-        name: `${baseName}_A1.pdf`,
-        blob: blob,
-        url: URL.createObjectURL(blob),
-        type: 'pdf',
-        dimensions: '60 x 84.7 cm (incl. 3mm bleed)',
-        sizeDisplay: formatBytes(blob.size)
-    });
+// "photo" + "web" -> "photo_web_q90.avif"
+const rasterFileName = (baseName: string, suffix: string, encoder: EncoderSettings) =>
+  `${[baseName, suffix, encoderFileTag(encoder)].filter(Boolean).join('_')}.${IMAGE_ENCODERS[encoder.format].extension}`;
 
-    // --- 2. Generate A2 PDF ---
-    const a2BleedCm = SPECS.A2.bleedMm / 10;
-    const a2TotalWidthCm = SPECS.A2.widthCm + (a2BleedCm * 2);
-    const a2TotalHeightCm = SPECS.A2.heightCm + (a2BleedCm * 2);
+export interface ExportHooks {
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
+}
 
-    const a2WidthPx = Math.ceil(a2TotalWidthCm * DPI_300_PPCM);
-    const a2HeightPx = Math.ceil(a2TotalHeightCm * DPI_300_PPCM);
+export const createAbortError = () => new DOMException('Export cancelled', 'AbortError');
 
-    const a2Data = await generateHighResCanvas(image, crop, a2WidthPx, a2HeightPx, referenceWidthPx);
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
 
-    const pdfA2 = new jsPDF({
-        orientation: 'p',
-        unit: 'cm',
-        format: [a2TotalWidthCm, a2TotalHeightCm],
-        compress: true
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * Runs the whole render -> encode -> PDF pipeline for one image.
+ * Works on the main thread and inside the export worker; results carry no object URLs
+ * because URLs created in a worker die with it.
+ * Cancellation is checked between steps, so an abort takes effect after the current tile or encode.
+ */
+export const renderExports = async (
+  image: RenderSource,
+  crops: FileCrops, // Each output renders with the crop of its target
+  baseFilename: string,
+  options: ExportOptions,
+  originalFileSize: number = 0,
+  hooks: ExportHooks = {}
+): Promise<RenderedFile[]> => {
+  const baseName = baseFilename;
+  const results: RenderedFile[] = [];
+  const imageSize = getSourceSize(image);
+  const { signal } = hooks;
+
+  // Every output counts as one equal step of the file's progress
+  const totalOutputs =
+    (options.includePdf ? options.paperFormats.length : 0) +
+    (options.includeWebpFixed ? options.webPresets.length : 0) +
+    (options.includeResize ? 1 : 0) +
+    (options.includeResponsive ? 1 : 0);
+  let finishedOutputs = 0;
+  const report = (stage: ExportStage, output: string, outputFraction: number) => {
+    throwIfAborted(signal);
+    hooks.onProgress?.({
+      stage,
+      output,
+      fraction: totalOutputs > 0 ? (finishedOutputs + outputFraction) / totalOutputs : 1
     });
+  };
 
-    pdfA2.addImage(a2Data, 'JPEG', 0, 0, a2TotalWidthCm, a2TotalHeightCm, undefined, 'FAST');
-    const blobA2 = pdfA2.output('blob');
+  // Perspective correction flattens the artwork once; the print PDFs and web crops are cropped from the result
+  let rectified: RenderCanvas | null = null;
+  if (crops.perspective && (options.includePdf || options.includeWebpFixed)) {
+    report('render', 'Perspective correction', 0);
+    rectified = rectifyImage(image, crops.perspective);
+  }
+  const cropSource = rectified || image;
+  const cropSourceSize = getSourceSize(cropSource);
 
-    results.push({
-        name: `${baseName}_A2.pdf`,
-        blob: blobA2,
-        url: URL.createObjectURL(blobA2),
-        type: 'pdf',
-        dimensions: '42.6 x 60 cm (incl. 3mm bleed)',
-        sizeDisplay: formatBytes(blobA2.size)
-    });
+  // --- 1. Generate Print PDFs (one per selected paper format) ---
+  if (options.includePdf) {
+    const orientation = resolvePrintOrientation(options.orientation, cropSourceSize, crops);
+    const cmykProfile = options.colorMode === 'cmyk'
+      ? CMYK_PROFILES[options.cmykProfile] || CMYK_PROFILES.COATED
+      : null;
+
+    for (const paperFormat of options.paperFormats) {
+      const format = orientFormat(paperFormat, orientation);
+      const crop = getTargetCrop(crops, printTargetKey(paperFormat));
+      const { bleedCm, totalWidthCm, totalHeightCm, widthPx, heightPx } = getPrintDimensions(format);
+
+      // With printer's marks the page grows by a slug margin around the bleed box
+      const margin = options.printerMarks ? PRINTER_MARKS_MARGIN_CM : 0;
+      const dimensions = formatPaperDimensions(format);
+
+      const pdf = new jsPDF({
+          orientation: orientation === 'landscape' ? 'l' : 'p',
+          unit: 'cm',
+          format: [totalWidthCm + margin * 2, totalHeightCm + margin * 2],
+          compress: true
+      });
+
+      // Large formats exceed per-canvas pixel caps, so the image goes in as one XObject per tile.
+      // Each tile is encoded and released before the next one is drawn.
+      const cmPerPxX = totalWidthCm / widthPx;
+      const cmPerPxY = totalHeightCm / heightPx;
+      const outputLabel = `${format.label} PDF`;
+      const tiles = planCanvasTiles(widthPx, heightPx);
+      for (const [index, tile] of tiles.entries()) {
+          // Rendering and encoding the tiles is most of the work; assembly gets the last 10%
+          report('render', outputLabel, (index / tiles.length) * 0.9);
+          const canvas = drawHighResTile(cropSource, crop, widthPx, heightPx, tile);
+          report('encode', outputLabel, ((index + 0.5) / tiles.length) * 0.9);
+          const cmykImage = cmykProfile ? await encodeCmykCanvas(canvas, cmykProfile) : null;
+          const jpegData = cmykImage ? null : await canvasToJpegBytes(canvas);
+          releaseCanvas(canvas);
+
+          const x = margin + tile.x * cmPerPxX;
+          const y = margin + tile.y * cmPerPxY;
+          const width = tile.width * cmPerPxX;
+          const height = tile.height * cmPerPxY;
+          if (cmykImage) {
+              addCmykImage(pdf, cmykImage, x, y, width, height);
+          } else if (jpegData) {
+              pdf.addImage(jpegData, 'JPEG', x, y, width, height, undefined, 'FAST');
+          }
+      }
+
+      report('pdf', outputLabel, 0.9);
+      if (options.printerMarks) {
+          drawPrinterMarks(
+              pdf,
+              { x: margin, y: margin, width: totalWidthCm, height: totalHeightCm, bleedCm },
+              { fileName: baseName, sizeLabel: `${format.label} ${dimensions}` }
+          );
+      }
+      applyPrepressProfile(
+          pdf,
+          { x: margin, y: margin, width: totalWidthCm, height: totalHeightCm, bleedCm },
+          { title: `${baseName} ${format.label}` }
+      );
+
+      const pdfData = pdf.output('arraybuffer');
+      // Returned with the file; the results list reports failed checks
+      const validation = validatePdfBoxes(pdfData, {
+          trimWidthCm: format.widthCm,
+          trimHeightCm: format.heightCm,
+          bleedCm
+      });
+      const blob = new Blob([pdfData], { type: 'application/pdf' });
+
+      results.push({
+          name: `${baseName}_${toFileSuffix(format.label)}.pdf`,
+          blob: blob,
+          type: 'pdf',
+          dimensions: [dimensions, options.printerMarks && "printer's marks", cmykProfile && `CMYK (${cmykProfile.label.toLowerCase()})`]
+              .filter(Boolean)
+              .join(' + '),
+          sizeDisplay: formatBytes(blob.size),
+          validation
+      });
+      finishedOutputs++;
+    }
   }
 
-  // --- 3. Generate Fixed WebP (Cropped) ---
+  // --- 2. Generate Web Crops (one per selected preset) ---
   if (options.includeWebpFixed) {
-      const webpBlob = await generateWebPCanvas(image, crop, referenceWidthPx);
+    const encoder = options.webEncoder;
+    for (const preset of options.webPresets) {
+      const crop = getTargetCrop(crops, webTargetKey(preset));
+      report('render', `${preset.label} ${IMAGE_ENCODERS[encoder.format].label}`, 0);
+      // Presets have fixed dimensions, so a byte budget only lowers the quality
+      const web = await encodeWithinBudget(
+          () => drawWebCrop(cropSource, crop, preset),
+          preset.widthPx,
+          preset.heightPx,
+          encoder,
+          false
+      );
       results.push({
-        name: `${baseName}_web.webp`,
-        blob: webpBlob,
-        url: URL.createObjectURL(webpBlob),
-        type: 'webp',
-        dimensions: '912 x 1296 px',
-        sizeDisplay: formatBytes(webpBlob.size)
+        name: rasterFileName(baseName, presetFileSuffix(preset), web.settings),
+        blob: web.blob,
+        type: encoder.format,
+        dimensions: `${preset.label} · ${web.width} x ${web.height} px`,
+        sizeDisplay: `${formatBytes(web.blob.size)} · ${describeEncoder(web.settings)}${budgetNote(web)}`
       });
+      finishedOutputs++;
+    }
   }
 
-  // --- 4. Generate Resized Original (Scaled) ---
+  if (rectified) releaseCanvas(rectified);
+
+  // --- 3. Generate Resized Original (Scaled) ---
   if (options.includeResize) {
-      const resizedBlob = await generateResizedWebP(image, options.resizeScale);
-      
-      // Calculate resulting dimensions for display
-      const scale = options.resizeScale / 100;
-      const w = Math.round(image.naturalWidth * scale);
-      const h = Math.round(image.naturalHeight * scale);
-      
+      const encoder = options.resizeEncoder;
+      report('render', `Resized ${IMAGE_ENCODERS[encoder.format].label}`, 0);
+      // scalePercentage is 1-100
+      const scale = Math.max(1, Math.min(100, options.resizeScale)) / 100;
+      const resized = await encodeWithinBudget(
+          (width, height) => drawResized(image, width, height),
+          Math.round(imageSize.width * scale),
+          Math.round(imageSize.height * scale),
+          encoder,
+          true
+      );
+      const resizedBlob = resized.blob;
+
       let sizeText = formatBytes(resizedBlob.size);
-      
+
       // If we know original size, show comparison
       if (originalFileSize > 0) {
           const savings = originalFileSize - resizedBlob.size;
@@ -273,26 +335,111 @@ export const processExports = async (
       }
 
       results.push({
-          name: `${baseName}_small.webp`,
+          name: rasterFileName(baseName, 'small', resized.settings),
           blob: resizedBlob,
-          url: URL.createObjectURL(resizedBlob),
-          type: 'webp',
-          dimensions: `${w} x ${h} px`,
-          sizeDisplay: sizeText
+          type: encoder.format,
+          dimensions: `${resized.width} x ${resized.height} px`,
+          sizeDisplay: `${sizeText} · ${describeEncoder(resized.settings)}${budgetNote(resized)}`
+      });
+      finishedOutputs++;
+  }
+
+  // --- 4. Generate Responsive Set (widths x formats) with manifest and <picture> snippet ---
+  if (options.includeResponsive && options.responsive.formats.length > 0) {
+      const { formats, quality } = options.responsive;
+      const widths = planResponsiveWidths(options.responsive.widths, imageSize.width);
+      const variants: ResponsiveVariant[] = [];
+      const steps = widths.length * formats.length;
+
+      for (const width of widths) {
+          const height = Math.max(1, Math.round((width / imageSize.width) * imageSize.height));
+          const canvas = drawResized(image, width, height);
+          try {
+              for (const format of formats) {
+                  const encoder = IMAGE_ENCODERS[format];
+                  report('encode', `${width}w ${encoder.label}`, variants.length / steps);
+                  const blob = await encoder.encode(canvas, {
+                      format,
+                      quality,
+                      lossless: false,
+                      chroma: '420',
+                      progressive: true,
+                      maxSizeKb: null
+                  });
+                  const name = `${baseName}_${width}w.${encoder.extension}`;
+                  variants.push({
+                      file: name,
+                      format,
+                      mimeType: encoder.mimeType,
+                      width,
+                      height,
+                      bytes: blob.size,
+                      sha256: await sha256Hex(blob)
+                  });
+                  results.push({
+                      name,
+                      blob,
+                      type: format,
+                      dimensions: `${width} x ${height} px`,
+                      sizeDisplay: `${formatBytes(blob.size)} · ${encoder.label}`
+                  });
+              }
+          } finally {
+              releaseCanvas(canvas);
+          }
+      }
+
+      const snippet = new Blob([buildPictureSnippet(variants, baseName)], { type: 'text/html' });
+      results.push({
+          name: `${baseName}_picture.html`,
+          blob: snippet,
+          type: 'html',
+          dimensions: `<picture> with ${formats.length} format${formats.length > 1 ? 's' : ''} x ${widths.length} widths`,
+          sizeDisplay: formatBytes(snippet.size)
+      });
+      const manifest = new Blob([buildManifest(baseName, variants)], { type: 'application/json' });
+      results.push({
+          name: `${baseName}_manifest.json`,
+          blob: manifest,
+          type: 'json',
+          dimensions: `${variants.length} variants with sizes & SHA-256`,
+          sizeDisplay: formatBytes(manifest.size)
       });
+      finishedOutputs++;
   }
 
+  hooks.onProgress?.({ stage: 'done', fraction: 1 });
   return results;
 };
 
-export const generateZip = async (batchResults: BatchResult[]): Promise<Blob> => {
+/**
+ * Main-thread variant of renderExports that also creates object URLs for download.
+ */
+export const processExports = async (
+  image: RenderSource,
+  crops: FileCrops,
+  baseFilename: string,
+  options: ExportOptions,
+  originalFileSize: number = 0,
+  hooks: ExportHooks = {}
+): Promise<GeneratedFile[]> => {
+  const files = await renderExports(image, crops, baseFilename, options, originalFileSize, hooks);
+  return files.map(file => ({ ...file, url: URL.createObjectURL(file.blob) }));
+};
+
+export const generateZip = async (
+  batchResults: BatchResult[],
+  onProgress?: (percent: number) => void
+): Promise<Blob> => {
   const zip = new JSZip();
+  // Failed items have no files and would only add empty folders
+  const succeeded = batchResults.filter(batch => batch.files.length > 0);
 
-  batchResults.forEach(batch => {
+  succeeded.forEach(batch => {
     // If there is only 1 file, put them in root
     // If multiple, put them in folders? Or just prefix them.
     // Let's create a folder for each original image if batch > 1
-    const folder = batchResults.length > 1 ? zip.folder(batch.originalName) : zip;
+    const folder = succeeded.length > 1 ? zip.folder(batch.originalName) : zip;
     
     if (folder) {
       batch.files.forEach(file => {
@@ -301,5 +448,5 @@ export const generateZip = async (batchResults: BatchResult[]): Promise<Blob> =>
     }
   });
 
-  return await zip.generateAsync({ type: 'blob' });
+  return await zip.generateAsync({ type: 'blob' }, metadata => onProgress?.(metadata.percent));
 };
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { Dimensions, PerspectiveQuad, Point } from '../types';
+import { RenderSource, RenderCanvas, createRenderCanvas, get2dContext, getSourceSize, releaseCanvas, MAX_CANVAS_PIXELS } from './canvasUtils';
+
+// The whole image, i.e. no correction
+export const DEFAULT_QUAD: PerspectiveQuad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Size of the flattened artwork in source pixels. Each side takes the longer of its two opposite
+ * edges, keeping the detail of the side nearest the camera; a single photo can't tell the true aspect ratio.
+ */
+export const getRectifiedSize = (quad: PerspectiveQuad, imageWidth: number, imageHeight: number): Dimensions => {
+  const [tl, tr, br, bl] = quad.map(p => ({ x: p.x * imageWidth, y: p.y * imageHeight }));
+  return {
+    width: Math.max(1, Math.round(Math.max(distance(tl, tr), distance(bl, br)))),
+    height: Math.max(1, Math.round(Math.max(distance(tl, bl), distance(tr, br)))),
+  };
+};
+
+// Scales a size down (never up) to at most maxPixels, keeping the aspect ratio
+export const fitPixels = (size: Dimensions, maxPixels: number): Dimensions => {
+  const factor = Math.min(1, Math.sqrt(maxPixels / (size.width * size.height)));
+  return {
+    width: Math.max(1, Math.round(size.width * factor)),
+    height: Math.max(1, Math.round(size.height * factor)),
+  };
+};
+
+/**
+ * Size of the image that crops are made on: the flattened artwork when perspective correction is on,
+ * capped to the canvas limit exactly as rectifyImage renders it.
+ */
+export const getCropSourceSize = (image: Dimensions, quad: PerspectiveQuad | null): Dimensions =>
+  quad ? fitPixels(getRectifiedSize(quad, image.width, image.height), MAX_CANVAS_PIXELS) : image;
+
+/**
+ * Projective mapping of the unit square onto a quad (Heckbert's square-to-quad):
+ * (0,0), (1,0), (1,1), (0,1) land on the quad's corners in order.
+ */
+const squareToQuad = ([p0, p1, p2, p3]: Point[]) => {
+  const sx = p0.x - p1.x + p2.x - p3.x;
+  const sy = p0.y - p1.y + p2.y - p3.y;
+  let g = 0;
+  let h = 0;
+  if (Math.abs(sx) > 1e-12 || Math.abs(sy) > 1e-12) {
+    const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x;
+    const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y;
+    const den = dx1 * dy2 - dx2 * dy1;
+    g = (sx * dy2 - dx2 * sy) / den;
+    h = (dx1 * sy - sx * dy1) / den;
+  }
+  const a = p1.x - p0.x + g * p1.x, b = p3.x - p0.x + h * p3.x, c = p0.x;
+  const d = p1.y - p0.y + g * p1.y, e = p3.y - p0.y + h * p3.y, f = p0.y;
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+/**
+ * Warps the quad of the source onto a rectangular canvas with bilinear sampling.
+ * The source is read at no more than maxSourcePixels; areas outside the image come out white.
+ */
+export const warpPerspective = (
+  source: RenderSource,
+  quad: PerspectiveQuad,
+  outputWidth: number,
+  outputHeight: number,
+  maxSourcePixels: number = MAX_CANVAS_PIXELS
+): RenderCanvas => {
+  const sample = fitPixels(getSourceSize(source), maxSourcePixels);
+  const sampleCanvas = createRenderCanvas(sample.width, sample.height);
+  const sampleCtx = get2dContext(sampleCanvas);
+  if (!sampleCtx) throw new Error('Could not get canvas context');
+  sampleCtx.drawImage(source, 0, 0, sample.width, sample.height);
+  const src = sampleCtx.getImageData(0, 0, sample.width, sample.height).data;
+  releaseCanvas(sampleCanvas);
+
+  const output = createRenderCanvas(outputWidth, outputHeight);
+  const ctx = get2dContext(output);
+  if (!ctx) throw new Error('Could not get canvas context');
+  const pixels = ctx.createImageData(outputWidth, outputHeight);
+  const out = pixels.data;
+
+  const map = squareToQuad(quad.map(p => ({ x: p.x * sample.width, y: p.y * sample.height })));
+  const maxX = sample.width - 1;
+  const maxY = sample.height - 1;
+
+  for (let row = 0; row < outputHeight; row++) {
+    const v = (row + 0.5) / outputHeight;
+    for (let col = 0; col < outputWidth; col++) {
+      const target = (row * outputWidth + col) * 4;
+      const point = map((col + 0.5) / outputWidth, v);
+      // Pixel centers sit at +0.5
+      const x = point.x - 0.5;
+      const y = point.y - 0.5;
+      if (x < -0.5 || y < -0.5 || x > maxX + 0.5 || y > maxY + 0.5) {
+        out[target] = out[target + 1] = out[target + 2] = out[target + 3] = 255;
+        continue;
+      }
+
+      const cx = Math.min(maxX, Math.max(0, x));
+      const cy = Math.min(maxY, Math.max(0, y));
+      const x0 = Math.floor(cx), y0 = Math.floor(cy);
+      const x1 = Math.min(maxX, x0 + 1), y1 = Math.min(maxY, y0 + 1);
+      const fx = cx - x0, fy = cy - y0;
+      const i00 = (y0 * sample.width + x0) * 4, i10 = (y0 * sample.width + x1) * 4;
+      const i01 = (y1 * sample.width + x0) * 4, i11 = (y1 * sample.width + x1) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const top = src[i00 + channel] + (src[i10 + channel] - src[i00 + channel]) * fx;
+        const bottom = src[i01 + channel] + (src[i11 + channel] - src[i01 + channel]) * fx;
+        out[target + channel] = top + (bottom - top) * fy;
+      }
+    }
+  }
+
+  ctx.putImageData(pixels, 0, 0);
+  return output;
+};
+
+/**
+ * Flattens the artwork at full resolution for export, within the canvas pixel cap.
+ */
+export const rectifyImage = (source: RenderSource, quad: PerspectiveQuad): RenderCanvas => {
+  const size = getSourceSize(source);
+  const output = getCropSourceSize(size, quad);
+  return warpPerspective(source, quad, output.width, output.height);
+};
+
+/**
+ * True when the corners form a convex quad in order; anything else has no sensible rectangle to warp to.
+ */
+export const isConvexQuad = (quad: PerspectiveQuad): boolean => {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i], b = quad[(i + 1) % 4], c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+};
+
+// Shape check for quads read from sessions or project files
+export const isPerspectiveQuad = (value: unknown): value is PerspectiveQuad =>
+  Array.isArray(value) && value.length === 4 && value.every(point =>
+    !!point && typeof point.x === 'number' && isFinite(point.x) && typeof point.y === 'number' && isFinite(point.y)
+  );
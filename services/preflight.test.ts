@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { ExportOptions, PAPER_FORMATS } from '../types';
+import { DEFAULT_OPTIONS } from './exportOptions';
+import { createFileCrops } from './cropTargets';
+import { DEFAULT_QUAD } from './perspective';
+import { MAX_CANVAS_PIXELS } from './canvasUtils';
+import { checkPrintResolution } from './preflight';
+
+const OPTIONS: ExportOptions = { ...DEFAULT_OPTIONS, includePdf: true, paperFormats: [PAPER_FORMATS.A3] };
+
+describe('checkPrintResolution', () => {
+  it('uses the capped size of perspective-corrected images', () => {
+    const image = { width: 8000, height: 6000 }; // 48 MP, well above the canvas limit
+    const [plain] = checkPrintResolution(image, createFileCrops(), OPTIONS);
+    const [corrected] = checkPrintResolution(image, { ...createFileCrops(), perspective: DEFAULT_QUAD }, OPTIONS);
+    const cap = Math.sqrt(MAX_CANVAS_PIXELS / (image.width * image.height));
+    expect(corrected.dpi).toBeLessThan(plain.dpi);
+    expect(corrected.dpi).toBeCloseTo(plain.dpi * cap, -1);
+  });
+
+  it('leaves images below the limit unchanged', () => {
+    const image = { width: 4000, height: 3000 };
+    const [plain] = checkPrintResolution(image, createFileCrops(), OPTIONS);
+    const [corrected] = checkPrintResolution(image, { ...createFileCrops(), perspective: DEFAULT_QUAD }, OPTIONS);
+    expect(corrected.dpi).toBe(plain.dpi);
+  });
+});
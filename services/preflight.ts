@@ -0,0 +1,46 @@
+import { Dimensions, ExportOptions, FileCrops, PaperFormat } from '../types';
+import { getPrintDimensions, orientFormat } from './paperFormats';
+import { getTargetCrop, printTargetKey, resolvePrintOrientation } from './cropTargets';
+import { MIN_CROP_SCALE, getOrientedSize } from './cropGeometry';
+import { getCropSourceSize } from './perspective';
+
+// Below this the print is flagged and generation asks for confirmation
+export const MIN_EFFECTIVE_DPI = 150;
+// Target resolution of the print pipeline
+export const TARGET_DPI = 300;
+
+export interface DpiCheck {
+  format: PaperFormat;
+  dpi: number;
+  ok: boolean;
+}
+
+/**
+ * Effective resolution of the image on the printed sheet.
+ * The renderer draws the image at (full-bleed width in px * crop.scale),
+ * so the source pixels per inch only depend on the sheet width and the zoom.
+ */
+export const getEffectiveDpi = (imageWidthPx: number, format: PaperFormat, scale: number): number => {
+  const { totalWidthCm } = getPrintDimensions(format);
+  const printedWidthInch = (totalWidthCm * Math.max(MIN_CROP_SCALE, scale)) / 2.54;
+  return Math.round(imageWidthPx / printedWidthInch);
+};
+
+/**
+ * Checks every selected print target of a file against its own crop.
+ * Returns an empty list when no PDFs are selected.
+ */
+export const checkPrintResolution = (image: Dimensions, crops: FileCrops, options: ExportOptions): DpiCheck[] => {
+  if (!options.includePdf) return [];
+  // With perspective correction the crop works on the flattened artwork, as capped for rendering
+  const source = getCropSourceSize(image, crops.perspective);
+  const orientation = resolvePrintOrientation(options.orientation, source, crops);
+
+  return options.paperFormats.map(paperFormat => {
+    const format = orientFormat(paperFormat, orientation);
+    const crop = getTargetCrop(crops, printTargetKey(paperFormat));
+    // The zoom is relative to the rotated image, so its width is what spans the sheet
+    const dpi = getEffectiveDpi(getOrientedSize(source.width, source.height, crop).width, format, crop.scale);
+    return { format, dpi, ok: dpi >= MIN_EFFECTIVE_DPI };
+  });
+};
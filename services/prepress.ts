@@ -0,0 +1,116 @@
+import jsPDF from 'jspdf';
+import { PdfValidation } from '../types';
+
+const PT_PER_CM = 72 / 2.54;
+const BOX_TOLERANCE_PT = 0.5;
+
+export interface PrepressBoxes {
+  x: number;        // Bleed box origin from the top-left of the page (cm)
+  y: number;
+  width: number;    // Bleed box size (cm)
+  height: number;
+  bleedCm: number;
+}
+
+export interface PrepressInfo {
+  title: string;
+}
+
+type Box = [number, number, number, number];
+
+const toPdfBox = (left: number, top: number, right: number, bottom: number, pageHeightPt: number) => ({
+  bottomLeftX: left * PT_PER_CM,
+  bottomLeftY: pageHeightPt - bottom * PT_PER_CM,
+  topRightX: right * PT_PER_CM,
+  topRightY: pageHeightPt - top * PT_PER_CM,
+});
+
+/**
+ * Adds TrimBox/BleedBox to every page and document metadata.
+ * Must be called before the document is output. Coordinates are in cm from the
+ * top-left corner, matching the jsPDF drawing space.
+ *
+ * No PDF/X OutputIntent is written: the CMYK separation is a built-in approximation,
+ * not an ICC conversion to a registered printing condition, so claiming one would be wrong.
+ */
+export const applyPrepressProfile = (pdf: jsPDF, boxes: PrepressBoxes, info: PrepressInfo) => {
+  const pageHeightPt = pdf.internal.pageSize.getHeight() * pdf.internal.scaleFactor;
+  const right = boxes.x + boxes.width;
+  const bottom = boxes.y + boxes.height;
+
+  for (let page = 1; page <= pdf.getNumberOfPages(); page++) {
+    const { pageContext } = pdf.getPageInfo(page);
+    pageContext.bleedBox = toPdfBox(boxes.x, boxes.y, right, bottom, pageHeightPt);
+    pageContext.trimBox = toPdfBox(
+      boxes.x + boxes.bleedCm,
+      boxes.y + boxes.bleedCm,
+      right - boxes.bleedCm,
+      bottom - boxes.bleedCm,
+      pageHeightPt
+    );
+  }
+
+  pdf.setDocumentProperties({
+    title: info.title,
+    subject: 'Print-ready artwork',
+    creator: 'Ai Papi Converter',
+  });
+};
+
+const parseBox = (source: string, name: string): Box | null => {
+  const match = source.match(new RegExp(`/${name} \\[([^\\]]+)\\]`));
+  if (!match) return null;
+  const values = match[1].trim().split(/\s+/).map(Number);
+  return values.length === 4 && values.every(v => !isNaN(v)) ? values as Box : null;
+};
+
+const contains = (outer: Box, inner: Box) =>
+  inner[0] >= outer[0] - BOX_TOLERANCE_PT &&
+  inner[1] >= outer[1] - BOX_TOLERANCE_PT &&
+  inner[2] <= outer[2] + BOX_TOLERANCE_PT &&
+  inner[3] <= outer[3] + BOX_TOLERANCE_PT;
+
+const near = (a: number, b: number) => Math.abs(a - b) <= BOX_TOLERANCE_PT;
+
+/**
+ * Reads the produced PDF back and checks that the page boxes nest correctly
+ * and match the expected trim size and bleed.
+ */
+export const validatePdfBoxes = (
+  data: ArrayBuffer,
+  expected: { trimWidthCm: number; trimHeightCm: number; bleedCm: number }
+): PdfValidation => {
+  // Page dictionaries and the catalog are written uncompressed, so a latin1 view is enough
+  const source = new TextDecoder('latin1').decode(data);
+  const errors: string[] = [];
+
+  const mediaBox = parseBox(source, 'MediaBox');
+  const bleedBox = parseBox(source, 'BleedBox');
+  const trimBox = parseBox(source, 'TrimBox');
+
+  if (!mediaBox) errors.push('MediaBox missing');
+  if (!bleedBox) errors.push('BleedBox missing');
+  if (!trimBox) errors.push('TrimBox missing');
+
+  if (mediaBox && bleedBox && trimBox) {
+    if (!contains(mediaBox, bleedBox)) errors.push('BleedBox extends beyond MediaBox');
+    if (!contains(bleedBox, trimBox)) errors.push('TrimBox extends beyond BleedBox');
+
+    const trimWidth = trimBox[2] - trimBox[0];
+    const trimHeight = trimBox[3] - trimBox[1];
+    if (!near(trimWidth, expected.trimWidthCm * PT_PER_CM) || !near(trimHeight, expected.trimHeightCm * PT_PER_CM)) {
+      errors.push('TrimBox does not match the trim size');
+    }
+
+    const bleedPt = expected.bleedCm * PT_PER_CM;
+    const bleeds = [
+      trimBox[0] - bleedBox[0],
+      trimBox[1] - bleedBox[1],
+      bleedBox[2] - trimBox[2],
+      bleedBox[3] - trimBox[3],
+    ];
+    if (!bleeds.every(b => near(b, bleedPt))) errors.push('Bleed is not uniform on all sides');
+  }
+
+  return { valid: errors.length === 0, errors };
+};
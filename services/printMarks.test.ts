@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import jsPDF from 'jspdf';
+import { drawPrinterMarks, MarksBox, PRINTER_MARKS_MARGIN_CM } from './printMarks';
+
+interface Rect { x: number; y: number; width: number; height: number }
+
+// Records the colour bar patches; everything else is a no-op
+const createRecordingPdf = () => {
+  const rects: Rect[] = [];
+  const noop = () => {};
+  const pdf = {
+    setLineWidth: noop,
+    setDrawColor: noop,
+    setFillColor: noop,
+    setFontSize: noop,
+    setTextColor: noop,
+    line: noop,
+    circle: noop,
+    text: noop,
+    getTextWidth: (text: string) => text.length * 0.1,
+    rect: (x: number, y: number, width: number, height: number) => { rects.push({ x, y, width, height }); },
+  };
+  return { pdf: pdf as unknown as jsPDF, rects };
+};
+
+// Trim size in cm with 3mm bleed, placed like pdfService does
+const boxFor = (trimWidth: number, trimHeight: number): MarksBox => ({
+  x: PRINTER_MARKS_MARGIN_CM,
+  y: PRINTER_MARKS_MARGIN_CM,
+  width: trimWidth + 0.6,
+  height: trimHeight + 0.6,
+  bleedCm: 0.3,
+});
+
+const colorBar = (box: MarksBox) => {
+  const { pdf, rects } = createRecordingPdf();
+  drawPrinterMarks(pdf, box, { fileName: 'poster', sizeLabel: 'Test', date: new Date(0) });
+  return rects;
+};
+
+describe('drawPrinterMarks colour bar', () => {
+  it('draws full size patches on wide formats', () => {
+    const rects = colorBar(boxFor(21, 29.7));
+    expect(rects).toHaveLength(10);
+    rects.forEach(rect => expect(rect.width).toBeCloseTo(0.5, 9));
+  });
+
+  it.each([[13, 18], [10, 15], [9, 13]])('stays inside the slug and clear of the crop marks on %s x %s cm', (width, height) => {
+    const box = boxFor(width, height);
+    const trimRight = box.x + box.width - box.bleedCm;
+    const rects = colorBar(box);
+    expect(rects).toHaveLength(10);
+    rects.forEach(rect => {
+      expect(rect.x + rect.width).toBeLessThanOrEqual(trimRight - 0.2 + 1e-9);
+      expect(rect.y).toBeGreaterThanOrEqual(0);
+      expect(rect.y + rect.height).toBeLessThanOrEqual(box.y);
+    });
+  });
+
+  it('leaves the bar out when the patches would be too small to measure', () => {
+    expect(colorBar(boxFor(6, 9))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,115 @@
+import jsPDF from 'jspdf';
+
+// Extra paper (slug) added around the bleed box on every side to hold the marks
+export const PRINTER_MARKS_MARGIN_CM = 1.5;
+
+const MARK_LINE_WIDTH_CM = 0.01;  // ~0.25pt hairline
+const CROP_MARK_OFFSET_CM = 0.2;  // Gap between bleed edge and crop mark
+const CROP_MARK_LENGTH_CM = 0.6;
+const REG_MARK_RADIUS_CM = 0.2;
+const COLOR_PATCH_CM = 0.5;
+const MIN_COLOR_PATCH_CM = 0.3;   // Smaller patches can't be measured, so the bar is left out
+const COLOR_BAR_OFFSET_CM = 1;    // Start of the bar right of the page centre, clear of the top target
+
+// Registration colour: 100% of every ink so the mark shows on all plates
+const REGISTRATION: [number, number, number, number] = [1, 1, 1, 1];
+
+// C, M, Y, K solids, overprints (R, G, B) and K tints
+const COLOR_BAR: [number, number, number, number][] = [
+  [1, 0, 0, 0],
+  [0, 1, 0, 0],
+  [0, 0, 1, 0],
+  [0, 0, 0, 1],
+  [0, 1, 1, 0],
+  [1, 0, 1, 0],
+  [1, 1, 0, 0],
+  [0, 0, 0, 0.75],
+  [0, 0, 0, 0.5],
+  [0, 0, 0, 0.25],
+];
+
+export interface MarksBox {
+  x: number;       // Bleed box origin on the page (cm)
+  y: number;
+  width: number;   // Bleed box size (cm)
+  height: number;
+  bleedCm: number;
+}
+
+export interface SlugInfo {
+  fileName: string;
+  sizeLabel: string;
+  date?: Date;
+}
+
+const drawRegistrationMark = (pdf: jsPDF, cx: number, cy: number) => {
+  const arm = REG_MARK_RADIUS_CM * 1.6;
+  pdf.circle(cx, cy, REG_MARK_RADIUS_CM, 'S');
+  pdf.circle(cx, cy, REG_MARK_RADIUS_CM / 2.5, 'F');
+  pdf.line(cx - arm, cy, cx + arm, cy);
+  pdf.line(cx, cy - arm, cx, cy + arm);
+};
+
+/**
+ * Draws crop marks, registration targets, a colour bar and a slug line as
+ * vector elements in the margin around the bleed box.
+ * Expects the page to be at least PRINTER_MARKS_MARGIN_CM larger on every side.
+ */
+export const drawPrinterMarks = (pdf: jsPDF, box: MarksBox, info: SlugInfo) => {
+  const trimLeft = box.x + box.bleedCm;
+  const trimTop = box.y + box.bleedCm;
+  const trimRight = box.x + box.width - box.bleedCm;
+  const trimBottom = box.y + box.height - box.bleedCm;
+  const right = box.x + box.width;
+  const bottom = box.y + box.height;
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  const slugMid = PRINTER_MARKS_MARGIN_CM / 2;
+
+  pdf.setLineWidth(MARK_LINE_WIDTH_CM);
+  pdf.setDrawColor(...REGISTRATION);
+  pdf.setFillColor(...REGISTRATION);
+
+  // 1. Crop marks: two short lines per corner, aligned with the trim edges and kept outside the bleed
+  const near = CROP_MARK_OFFSET_CM;
+  const far = CROP_MARK_OFFSET_CM + CROP_MARK_LENGTH_CM;
+  [trimTop, trimBottom].forEach(y => {
+    pdf.line(box.x - far, y, box.x - near, y);
+    pdf.line(right + near, y, right + far, y);
+  });
+  [trimLeft, trimRight].forEach(x => {
+    pdf.line(x, box.y - far, x, box.y - near);
+    pdf.line(x, bottom + near, x, bottom + far);
+  });
+
+  // 2. Registration targets centred in the slug on each side
+  drawRegistrationMark(pdf, centerX, box.y - slugMid);
+  drawRegistrationMark(pdf, box.x - slugMid, centerY);
+  drawRegistrationMark(pdf, right + slugMid, centerY);
+
+  // 3. Colour bar in the top slug, right of the top target. It ends before the top-right crop mark,
+  // so on narrow formats the patches shrink, down to a measurable size
+  const barX = centerX + COLOR_BAR_OFFSET_CM;
+  const patch = Math.min(COLOR_PATCH_CM, (trimRight - CROP_MARK_OFFSET_CM - barX) / COLOR_BAR.length);
+  if (patch >= MIN_COLOR_PATCH_CM) {
+    const barY = box.y - slugMid - patch / 2;
+    COLOR_BAR.forEach(([c, m, y, k], i) => {
+      pdf.setFillColor(c, m, y, k);
+      pdf.rect(barX + i * patch, barY, patch, patch, 'FD');
+    });
+  }
+
+  // 4. Slug line in the bottom slug
+  const date = (info.date || new Date()).toISOString().slice(0, 10);
+  const slug = `${info.fileName}  |  ${info.sizeLabel}  |  ${date}`;
+  pdf.setFontSize(6);
+  pdf.setTextColor(0, 0, 0, 1);
+  pdf.text(slug, trimLeft, bottom + slugMid, { baseline: 'middle' });
+
+  // Bottom target only where it does not collide with the slug text
+  const slugEnd = trimLeft + pdf.getTextWidth(slug);
+  if (slugEnd < centerX - REG_MARK_RADIUS_CM * 2) {
+    pdf.setFillColor(...REGISTRATION);
+    drawRegistrationMark(pdf, centerX, bottom + slugMid);
+  }
+};
@@ -0,0 +1,145 @@
+import JSZip from 'jszip';
+import { ExportOptions, FileCrops } from '../types';
+import { SessionState } from './sessionStore';
+import { isSavedFileCrops } from './cropTargets';
+import { readExportOptions } from './exportOptions';
+
+// Bump when project.json changes shape, and add a migration from the previous version
+export const PROJECT_SCHEMA_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.aipapi';
+
+const DOCUMENT_PATH = 'project.json';
+const IMAGES_FOLDER = 'images';
+const APP_ID = 'aipapi-converter';
+
+interface ProjectFileEntry {
+  path: string;         // Source image inside the archive
+  originalName: string;
+  type: string;         // MIME type of the source image
+  lastModified: number;
+  name: string;         // Output base name
+  crops: FileCrops;
+  options: ExportOptions;
+}
+
+// project.json: everything needed to restore the edit state, next to the source images
+interface ProjectDocument {
+  app: typeof APP_ID;
+  schemaVersion: number;
+  savedAt: string; // ISO timestamp
+  currentFileIndex: number;
+  files: ProjectFileEntry[];
+}
+
+type RawDocument = Record<string, unknown>;
+
+// Upgrades project.json from the keyed version to the next one. Fields added without
+// changing the meaning of existing ones need no migration: restoring fills in defaults.
+const MIGRATIONS: Record<number, (project: RawDocument) => RawDocument> = {};
+
+/**
+ * Packs the source images and the edit state into a single ZIP-based project file.
+ */
+export const exportProject = async (files: File[], state: SessionState): Promise<Blob> => {
+  const zip = new JSZip();
+  const entries: ProjectFileEntry[] = files.map((file, idx) => {
+    // Numbered so identical names from different folders don't collide
+    const path = `${IMAGES_FOLDER}/${idx + 1}-${file.name}`;
+    zip.file(path, file);
+    return {
+      path,
+      originalName: file.name,
+      type: file.type,
+      lastModified: file.lastModified,
+      name: state.fileNames[idx],
+      crops: state.crops[idx],
+      options: state.fileSettings[idx],
+    };
+  });
+
+  const project: ProjectDocument = {
+    app: APP_ID,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    currentFileIndex: state.currentFileIndex,
+    files: entries,
+  };
+  zip.file(DOCUMENT_PATH, JSON.stringify(project, null, 2));
+  // Images are already compressed
+  return zip.generateAsync({ type: 'blob', compression: 'STORE' });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isProjectFileEntry = (value: unknown): value is ProjectFileEntry =>
+  isObject(value) &&
+  typeof value.path === 'string' &&
+  typeof value.originalName === 'string' &&
+  typeof value.type === 'string' &&
+  isSavedFileCrops(value.crops) &&
+  isObject(value.options);
+
+const isProjectDocument = (value: RawDocument): value is RawDocument & ProjectDocument =>
+  Array.isArray(value.files) && value.files.every(isProjectFileEntry);
+
+const upgradeDocument = (raw: unknown): ProjectDocument => {
+  if (!isObject(raw) || raw.app !== APP_ID || typeof raw.schemaVersion !== 'number') {
+    throw new Error('This is not a project file.');
+  }
+  if (raw.schemaVersion > PROJECT_SCHEMA_VERSION) {
+    throw new Error('This project was saved by a newer version of the app. Please update to open it.');
+  }
+  let project: RawDocument = raw;
+  let version = raw.schemaVersion;
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Project version ${version} is no longer supported.`);
+    project = migrate(project);
+    version++;
+  }
+  if (!isProjectDocument(project)) throw new Error('The project file is damaged.');
+  return project;
+};
+
+/**
+ * Reads a project file back into source files and edit state. Malformed crops reject the file;
+ * options that are missing or malformed get their defaults, and the caller fills in crop fields added since.
+ */
+export const importProject = async (projectFile: Blob): Promise<{ files: File[]; state: SessionState }> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(projectFile);
+  } catch {
+    throw new Error('This is not a project file.');
+  }
+  const documentEntry = zip.file(DOCUMENT_PATH);
+  if (!documentEntry) throw new Error('This is not a project file.');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await documentEntry.async('string'));
+  } catch {
+    throw new Error('The project file is damaged.');
+  }
+  const project = upgradeDocument(raw);
+  if (project.files.length === 0) throw new Error('The project has no images.');
+
+  const files = await Promise.all(project.files.map(async entry => {
+    const image = zip.file(entry.path);
+    if (!image) throw new Error(`The project is missing ${entry.originalName}.`);
+    const blob = await image.async('blob');
+    const lastModified = typeof entry.lastModified === 'number' ? entry.lastModified : Date.now();
+    return new File([blob], entry.originalName, { type: entry.type, lastModified });
+  }));
+
+  return {
+    files,
+    state: {
+      fileNames: project.files.map((entry, idx) => (typeof entry.name === 'string' && entry.name) || files[idx].name),
+      crops: project.files.map(entry => entry.crops),
+      fileSettings: project.files.map(entry => readExportOptions(entry.options)),
+      currentFileIndex: typeof project.currentFileIndex === 'number' ? project.currentFileIndex : 0,
+    },
+  };
+};
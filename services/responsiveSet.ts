@@ -0,0 +1,71 @@
+import { ImageFormat } from '../types';
+import { IMAGE_ENCODERS } from './encoders';
+
+// Width presets offered in the sidebar
+export const RESPONSIVE_WIDTH_PRESETS = [320, 640, 960, 1280, 1920, 2560];
+// Formats browsers can display; TIFF is left out on purpose
+export const RESPONSIVE_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpeg', 'png'];
+
+export interface ResponsiveVariant {
+  file: string;
+  format: ImageFormat;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+  sha256: string;
+}
+
+/**
+ * Sorted, de-duplicated widths that don't upscale the original.
+ * Falls back to the original width when every requested width is larger.
+ */
+export const planResponsiveWidths = (requested: number[], originalWidth: number): number[] => {
+  const widths = Array.from(new Set(requested.filter(w => w > 0 && w <= originalWidth))).sort((a, b) => a - b);
+  return widths.length > 0 ? widths : [originalWidth];
+};
+
+export const sha256Hex = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Commas separate srcset candidates, so they must be escaped in URLs too
+const toUrl = (file: string) => encodeURI(file).replace(/,/g, '%2C');
+
+// Sources are listed from most to least efficient so browsers pick the best one they support
+const byPreference = (a: ImageFormat, b: ImageFormat) => RESPONSIVE_FORMATS.indexOf(a) - RESPONSIVE_FORMATS.indexOf(b);
+
+/**
+ * Builds a <picture> element with one <source> per format; the last format doubles as the <img> fallback.
+ */
+export const buildPictureSnippet = (variants: ResponsiveVariant[], alt: string, sizes: string = '100vw'): string => {
+  const formats = Array.from(new Set(variants.map(v => v.format))).sort(byPreference);
+  const srcsetOf = (format: ImageFormat) =>
+    variants
+      .filter(v => v.format === format)
+      .sort((a, b) => a.width - b.width)
+      .map(v => `${toUrl(v.file)} ${v.width}w`)
+      .join(', ');
+
+  const fallbackFormat = formats[formats.length - 1];
+  const fallbackVariants = variants.filter(v => v.format === fallbackFormat).sort((a, b) => a.width - b.width);
+  const largest = fallbackVariants[fallbackVariants.length - 1];
+
+  const lines = ['<picture>'];
+  formats.slice(0, -1).forEach(format => {
+    lines.push(`  <source type="${IMAGE_ENCODERS[format].mimeType}" srcset="${srcsetOf(format)}" sizes="${sizes}">`);
+  });
+  lines.push(
+    `  <img src="${toUrl(largest.file)}" srcset="${srcsetOf(fallbackFormat)}" sizes="${sizes}" ` +
+    `width="${largest.width}" height="${largest.height}" alt="${escapeHtml(alt)}" loading="lazy" decoding="async">`
+  );
+  lines.push('</picture>');
+  return lines.join('\n') + '\n';
+};
+
+export const buildManifest = (imageName: string, variants: ResponsiveVariant[]): string =>
+  JSON.stringify({ image: imageName, generatedAt: new Date().toISOString(), variants }, null, 2) + '\n';
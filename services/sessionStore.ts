@@ -0,0 +1,155 @@
+import { ExportOptions, FileCrops } from '../types';
+
+const DB_NAME = 'aipapi';
+const DB_VERSION = 1;
+// Session state is rewritten on every autosave; the source files only once, so they live apart
+const SESSIONS_STORE = 'sessions';
+const FILES_STORE = 'sessionFiles';
+// Sessions hold full copies of the source images; older ones are evicted beyond this
+export const MAX_SAVED_SESSIONS = 10;
+
+// Everything needed to pick a batch up where it was left, apart from the files
+export interface SessionState {
+  crops: FileCrops[];
+  fileNames: string[];
+  fileSettings: ExportOptions[];
+  currentFileIndex: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string; // First file name, plus the count for batches
+  fileCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface SessionRecord extends SessionSummary {
+  state: SessionState;
+}
+
+interface SessionFilesRecord {
+  id: string;
+  files: File[];
+}
+
+export interface StoredSession {
+  summary: SessionSummary;
+  state: SessionState;
+  files: File[];
+}
+
+export const canUseSessionStore = () => typeof indexedDB !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error('Could not open the session database'));
+    });
+    // A failed open (e.g. private browsing) is retried on the next call
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Session transaction aborted'));
+  });
+
+const sessionTitle = (files: File[]) => {
+  const first = files[0]?.name || 'Untitled';
+  return files.length > 1 ? `${first} + ${files.length - 1} more` : first;
+};
+
+/**
+ * Stores the source files of a new session together with its initial state, evicting the least
+ * recently edited sessions beyond MAX_SAVED_SESSIONS. Returns the session id.
+ */
+export const createSession = async (files: File[], state: SessionState): Promise<string> => {
+  const db = await openDb();
+  const now = Date.now();
+  const record: SessionRecord = {
+    id: `session-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    title: sessionTitle(files),
+    fileCount: files.length,
+    createdAt: now,
+    updatedAt: now,
+    state,
+  };
+  const tx = db.transaction([SESSIONS_STORE, FILES_STORE], 'readwrite');
+  const sessions = tx.objectStore(SESSIONS_STORE);
+  const sessionFiles = tx.objectStore(FILES_STORE);
+  const existing = await promisify(sessions.getAll() as IDBRequest<SessionRecord[]>);
+  existing
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(MAX_SAVED_SESSIONS - 1)
+    .forEach(session => {
+      sessions.delete(session.id);
+      sessionFiles.delete(session.id);
+    });
+  sessions.put(record);
+  sessionFiles.put({ id: record.id, files } as SessionFilesRecord);
+  await completion(tx);
+  return record.id;
+};
+
+/**
+ * Autosave: replaces the state of an existing session. Missing sessions (deleted meanwhile) are left deleted.
+ */
+export const saveSessionState = async (id: string, state: SessionState): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  const existing = await promisify(store.get(id) as IDBRequest<SessionRecord | undefined>);
+  if (existing) store.put({ ...existing, state, updatedAt: Date.now() });
+  await completion(tx);
+};
+
+/**
+ * Saved sessions, most recently edited first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDb();
+  const records = await promisify(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll() as IDBRequest<SessionRecord[]>);
+  return records
+    .map(({ state, ...summary }) => summary)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<StoredSession | null> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, FILES_STORE]);
+  const [record, filesRecord] = await Promise.all([
+    promisify(tx.objectStore(SESSIONS_STORE).get(id) as IDBRequest<SessionRecord | undefined>),
+    promisify(tx.objectStore(FILES_STORE).get(id) as IDBRequest<SessionFilesRecord | undefined>),
+  ]);
+  if (!record || !filesRecord || filesRecord.files.length === 0) return null;
+  const { state, ...summary } = record;
+  return { summary, state, files: filesRecord.files };
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, FILES_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  tx.objectStore(FILES_STORE).delete(id);
+  await completion(tx);
+};
@@ -0,0 +1,122 @@
+import { RenderCanvas, get2dContext } from './canvasUtils';
+
+// Rows read per getImageData call; bounds peak memory on large canvases
+const STRIP_ROWS = 256;
+
+// Baseline TIFF tag ids and field types
+const TAG = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  PhotometricInterpretation: 262,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  XResolution: 282,
+  YResolution: 283,
+  PlanarConfiguration: 284,
+  ResolutionUnit: 296,
+  Predictor: 317,
+};
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+/**
+ * Deflate-compressed RGB rows with horizontal differencing (TIFF Predictor 2).
+ * Transparent pixels are composited onto white.
+ */
+const compressRows = async (canvas: RenderCanvas): Promise<Uint8Array> => {
+  const ctx = get2dContext(canvas);
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  const compressed = new Response(stream.readable).arrayBuffer();
+
+  for (let y = 0; y < canvas.height; y += STRIP_ROWS) {
+    const rows = Math.min(STRIP_ROWS, canvas.height - y);
+    const rgba = ctx.getImageData(0, y, canvas.width, rows).data;
+    const rgb = new Uint8Array(canvas.width * rows * 3);
+
+    for (let row = 0; row < rows; row++) {
+      let prevR = 0, prevG = 0, prevB = 0;
+      for (let x = 0; x < canvas.width; x++) {
+        const i = (row * canvas.width + x) * 4;
+        const o = (row * canvas.width + x) * 3;
+        const alpha = rgba[i + 3] / 255;
+        const r = Math.round(rgba[i] * alpha + 255 * (1 - alpha));
+        const g = Math.round(rgba[i + 1] * alpha + 255 * (1 - alpha));
+        const b = Math.round(rgba[i + 2] * alpha + 255 * (1 - alpha));
+        rgb[o] = r - prevR;
+        rgb[o + 1] = g - prevG;
+        rgb[o + 2] = b - prevB;
+        prevR = r; prevG = g; prevB = b;
+      }
+    }
+    await writer.write(rgb);
+  }
+  await writer.close();
+  return new Uint8Array(await compressed);
+};
+
+/**
+ * Encodes the canvas as a single-strip, 8-bit RGB TIFF (little endian, Deflate).
+ */
+export const encodeTiff = async (canvas: RenderCanvas, dpi: number = 72): Promise<Blob> => {
+  const pixels = await compressRows(canvas);
+
+  const ifdOffset = 8;
+  const tagCount = 14; // Entries below
+  // Out-of-line values follow the IFD: BitsPerSample (3 shorts) and the two resolutions
+  const extraOffset = ifdOffset + 2 + tagCount * 12 + 4;
+  const bitsOffset = extraOffset;
+  const xResOffset = bitsOffset + 6 + 2; // keep word alignment
+  const yResOffset = xResOffset + 8;
+  const dataOffset = yResOffset + 8;
+
+  // tag, type, count, value (or offset of the value)
+  const entries: [number, number, number, number][] = [
+    [TAG.ImageWidth, LONG, 1, canvas.width],
+    [TAG.ImageLength, LONG, 1, canvas.height],
+    [TAG.BitsPerSample, SHORT, 3, bitsOffset],
+    [TAG.Compression, SHORT, 1, 8], // Adobe Deflate
+    [TAG.PhotometricInterpretation, SHORT, 1, 2], // RGB
+    [TAG.StripOffsets, LONG, 1, dataOffset],
+    [TAG.SamplesPerPixel, SHORT, 1, 3],
+    [TAG.RowsPerStrip, LONG, 1, canvas.height],
+    [TAG.StripByteCounts, LONG, 1, pixels.length],
+    [TAG.XResolution, RATIONAL, 1, xResOffset],
+    [TAG.YResolution, RATIONAL, 1, yResOffset],
+    [TAG.PlanarConfiguration, SHORT, 1, 1], // Chunky
+    [TAG.ResolutionUnit, SHORT, 1, 2], // Inch
+    [TAG.Predictor, SHORT, 1, 2], // Horizontal differencing
+  ];
+
+  const header = new DataView(new ArrayBuffer(dataOffset));
+  header.setUint16(0, 0x4949); // "II"
+  header.setUint16(2, 42, true);
+  header.setUint32(4, ifdOffset, true);
+
+  header.setUint16(ifdOffset, tagCount, true);
+  entries.forEach(([tag, type, count, value], index) => {
+    const offset = ifdOffset + 2 + index * 12;
+    header.setUint16(offset, tag, true);
+    header.setUint16(offset + 2, type, true);
+    header.setUint32(offset + 4, count, true);
+    // Single SHORT values are left-justified in the 4-byte value field
+    if (type === SHORT && count === 1) header.setUint16(offset + 8, value, true);
+    else header.setUint32(offset + 8, value, true);
+  });
+  header.setUint32(ifdOffset + 2 + tagCount * 12, 0, true); // No further IFDs
+
+  [0, 2, 4].forEach(i => header.setUint16(bitsOffset + i, 8, true));
+  header.setUint32(xResOffset, dpi, true);
+  header.setUint32(xResOffset + 4, 1, true);
+  header.setUint32(yResOffset, dpi, true);
+  header.setUint32(yResOffset + 4, 1, true);
+
+  return new Blob([header.buffer, pixels], { type: 'image/tiff' });
+};
@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCustomPreset, loadCustomPresets } from './webPresets';
+
+const stubStorage = (value: string | null) => {
+  vi.stubGlobal('localStorage', { getItem: () => value });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createCustomPreset', () => {
+  it('gives presets created in the same millisecond different ids', () => {
+    const ids = new Set(Array.from({ length: 20 }, () => createCustomPreset('Same', 1200, 630).id));
+    expect(ids.size).toBe(20);
+  });
+});
+
+describe('loadCustomPresets', () => {
+  it('keeps valid presets and drops malformed entries', () => {
+    const custom = createCustomPreset('Banner', 1200, 630);
+    stubStorage(JSON.stringify([custom, 'banner', { id: 'x', label: 'No size' }, { ...custom, id: 'y', heightPx: 0 }]));
+    expect(loadCustomPresets()).toEqual([custom]);
+  });
+
+  it('returns nothing for storage that is not a list', () => {
+    stubStorage('{"id":"custom"}');
+    expect(loadCustomPresets()).toEqual([]);
+    stubStorage('not json');
+    expect(loadCustomPresets()).toEqual([]);
+  });
+});
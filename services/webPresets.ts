@@ -0,0 +1,58 @@
+import { WebPreset, WEB_PRESETS } from '../types';
+
+const CUSTOM_PRESETS_KEY = 'aipapi.customWebPresets';
+
+/**
+ * Size label for the sidebar, e.g. "1080 x 1350 px".
+ */
+export const formatPresetSize = (preset: WebPreset): string => `${preset.widthPx} x ${preset.heightPx} px`;
+
+// "Instagram Portrait" -> "instagram_portrait", used in output filenames
+export const presetFileSuffix = (preset: WebPreset): string =>
+  preset.label.trim().toLowerCase().replace(/\s+/g, '_').replace(/[^\w-]/g, '') || `${preset.widthPx}x${preset.heightPx}`;
+
+/**
+ * Builds a user-defined preset. Unlike paper formats the orientation is kept as entered,
+ * since a 1200x630 banner and a 630x1200 one are different targets.
+ */
+export const createCustomPreset = (label: string, widthPx: number, heightPx: number): WebPreset => ({
+  id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  label: label.trim() || `${Math.round(widthPx)}x${Math.round(heightPx)}`,
+  widthPx: Math.round(widthPx),
+  heightPx: Math.round(heightPx),
+  custom: true,
+});
+
+const isPixelSize = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+
+// Shape check for presets read from storage or imported files
+export const isWebPreset = (value: unknown): value is WebPreset => {
+  if (!value || typeof value !== 'object') return false;
+  const preset = value as Record<string, unknown>;
+  return typeof preset.id === 'string' && typeof preset.label === 'string' &&
+    isPixelSize(preset.widthPx) && isPixelSize(preset.heightPx) &&
+    (preset.custom === undefined || typeof preset.custom === 'boolean');
+};
+
+export const getAllWebPresets = (customPresets: WebPreset[]): WebPreset[] => [
+  ...Object.values(WEB_PRESETS),
+  ...customPresets,
+];
+
+export const loadCustomPresets = (): WebPreset[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_PRESETS_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(data) ? data.filter(isWebPreset) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: WebPreset[]) => {
+  try {
+    localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn('Could not persist custom web presets', error);
+  }
+};
@@ -3,55 +3,160 @@ export interface Dimensions {
   height: number;
 }
 
+// Resolution-independent: the same crop places the image identically in the preview and every output
 export interface CropState {
-  x: number; // Offset X in pixels
-  y: number; // Offset Y in pixels
-  scale: number; // Zoom level
+  centerX: number; // Frame center as a fraction of the image width (0.5 = centered)
+  centerY: number; // Frame center as a fraction of the image height
+  scale: number; // Zoom: image width relative to the frame width
+  rotation: 0 | 90 | 180 | 270; // Clockwise quarter turns; centerX/centerY and scale refer to the rotated image
+  flipH: boolean; // Mirrored left to right on screen
+  flipV: boolean; // Mirrored top to bottom on screen
+  straighten: number; // Fine clockwise rotation in degrees, around the frame center
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners of the artwork as fractions of the source image size: top-left, top-right, bottom-right, bottom-left
+export type PerspectiveQuad = [Point, Point, Point, Point];
+
+// Crops of one file, keyed by output target ("pdf:A1", "web:WEB")
+export interface FileCrops {
+  linked: boolean; // One crop for every target
+  shared: CropState;
+  targets: Record<string, CropState>; // Used while unlinked
+  perspective: PerspectiveQuad | null; // Warped to a rectangle before any crop is applied
+}
+
+export interface PdfValidation {
+  valid: boolean;
+  errors: string[];
 }
 
 export interface GeneratedFile {
   name: string;
   blob: Blob;
   url: string;
-  type: 'pdf' | 'webp';
+  type: 'pdf' | ImageFormat | 'html' | 'json';
   dimensions: string;
   sizeDisplay?: string; // formatted size info e.g. "1.2MB -> 500KB (-50%)"
+  validation?: PdfValidation; // Page box check for print PDFs
 }
 
+// A generated file before an object URL has been created for it (e.g. inside a worker)
+export type RenderedFile = Omit<GeneratedFile, 'url'>;
+
+export type ExportStage = 'queued' | 'decode' | 'render' | 'encode' | 'pdf' | 'done' | 'cancelled' | 'error';
+
 export interface BatchResult {
   originalName: string;
+  sourceIndex: number; // Index into the uploaded files, used to re-run failed items
   files: GeneratedFile[];
+  error?: {
+    message: string;
+    stage: ExportStage; // Last stage reached before the failure
+  };
+}
+
+export interface ExportProgress {
+  stage: ExportStage;
+  output?: string;  // Output currently being produced, e.g. "A1 PDF"
+  fraction: number; // 0-1 for the whole file
+}
+
+export interface PaperFormat {
+  id: string;
+  label: string;
+  widthCm: number;  // Trim width (portrait)
+  heightCm: number; // Trim height (portrait)
+  bleedMm: number;  // Bleed added on every side
+  custom?: boolean; // User-defined format
+}
+
+// 'auto' picks portrait or landscape from the image aspect ratio
+export type Orientation = 'portrait' | 'landscape' | 'auto';
+export type PageOrientation = Exclude<Orientation, 'auto'>;
+
+export type ImageFormat = 'webp' | 'avif' | 'jpeg' | 'png' | 'tiff';
+export type ChromaSubsampling = '420' | '444';
+
+// Encoder choice for one raster output
+export interface EncoderSettings {
+  format: ImageFormat;
+  quality: number;          // 1-100, ignored when lossless
+  lossless: boolean;        // WebP/AVIF only; PNG and TIFF are always lossless
+  chroma: ChromaSubsampling; // AVIF/JPEG only
+  progressive: boolean;     // JPEG only
+  maxSizeKb: number | null; // Byte budget: quality (and for resizes, dimensions) are lowered to fit
+}
+
+export interface WebPreset {
+  id: string;
+  label: string;
+  widthPx: number;
+  heightPx: number;
+  custom?: boolean; // User-defined preset
+}
+
+export interface ResponsiveSetOptions {
+  widths: number[];        // Target widths in px; widths above the original are skipped
+  formats: ImageFormat[];  // Each width is encoded in every format
+  quality: number;         // 1-100, for the lossy formats
 }
 
 export interface ExportOptions {
-  includePdf: boolean;      // A1 & A2 PDFs
-  includeWebpFixed: boolean; // 912x1296 Crop
+  includePdf: boolean;      // Print PDFs
+  paperFormats: PaperFormat[]; // Selected print sizes
+  orientation: Orientation;  // Print & preview orientation
+  printerMarks: boolean;     // Crop/registration marks, colour bar & slug
+  colorMode: 'rgb' | 'cmyk'; // Colour space of the embedded print image
+  cmykProfile: string;       // CMYK_PROFILES id, also used for soft proofing
+  includeWebpFixed: boolean; // Web crops
+  webPresets: WebPreset[];   // Selected web crop sizes
+  webEncoder: EncoderSettings; // Encoder of the web crops
   includeResize: boolean;    // Custom Resize
   resizeScale: number;      // 1-100 percentage
+  resizeEncoder: EncoderSettings; // Encoder of the resized original
+  includeResponsive: boolean; // Set of widths for srcset, plus manifest & <picture> snippet
+  responsive: ResponsiveSetOptions;
 }
 
 // 300 DPI conversion factor (Pixels per CM)
 // 300 pixels / 1 inch (2.54cm) ~= 118.1102
 export const DPI_300_PPCM = 118.1102;
 
-// Output Specifications
-// Corrected to ISO Standard "Trim" sizes.
-// The service adds 3mm bleed to these, resulting in:
-// A1: 59.4 + 0.6 = 60.0cm width
-// A2: 42.0 + 0.6 = 42.6cm width
-export const SPECS = {
-  A1: {
-    widthCm: 59.4,
-    heightCm: 84.1,
-    bleedMm: 3,
-  },
-  A2: {
-    widthCm: 42.0,
-    heightCm: 59.4,
-    bleedMm: 3,
-  },
-  WebP: {
-    widthPx: 912,
-    heightPx: 1296,
-  }
-};
\ No newline at end of file
+// Paper Format Registry
+// All sizes are ISO/ANSI "Trim" sizes in portrait.
+// The service adds the bleed to every side, e.g. A1 with 3mm bleed:
+// 59.4 + 0.6 = 60.0cm width
+export const PAPER_FORMATS: Record<string, PaperFormat> = {
+  A0: { id: 'A0', label: 'A0', widthCm: 84.1, heightCm: 118.9, bleedMm: 3 },
+  A1: { id: 'A1', label: 'A1', widthCm: 59.4, heightCm: 84.1, bleedMm: 3 },
+  A2: { id: 'A2', label: 'A2', widthCm: 42.0, heightCm: 59.4, bleedMm: 3 },
+  A3: { id: 'A3', label: 'A3', widthCm: 29.7, heightCm: 42.0, bleedMm: 3 },
+  A4: { id: 'A4', label: 'A4', widthCm: 21.0, heightCm: 29.7, bleedMm: 3 },
+  B1: { id: 'B1', label: 'B1', widthCm: 70.7, heightCm: 100.0, bleedMm: 3 },
+  B2: { id: 'B2', label: 'B2', widthCm: 50.0, heightCm: 70.7, bleedMm: 3 },
+  LETTER: { id: 'LETTER', label: 'US Letter', widthCm: 21.59, heightCm: 27.94, bleedMm: 3.175 },
+  TABLOID: { id: 'TABLOID', label: 'US Tabloid', widthCm: 27.94, heightCm: 43.18, bleedMm: 3.175 },
+  ARCH_D: { id: 'ARCH_D', label: 'Arch D', widthCm: 60.96, heightCm: 91.44, bleedMm: 3.175 },
+};
+
+// Formats selected for new uploads
+export const DEFAULT_PAPER_FORMATS: PaperFormat[] = [PAPER_FORMATS.A1, PAPER_FORMATS.A2];
+
+// Web Crop Presets
+// Exact pixel sizes; each renders the crop at its own aspect ratio around the frame center.
+export const WEB_PRESETS: Record<string, WebPreset> = {
+  WEB: { id: 'WEB', label: 'Web', widthPx: 912, heightPx: 1296 },
+  INSTAGRAM_PORTRAIT: { id: 'INSTAGRAM_PORTRAIT', label: 'Instagram Portrait', widthPx: 1080, heightPx: 1350 },
+  INSTAGRAM_SQUARE: { id: 'INSTAGRAM_SQUARE', label: 'Instagram Square', widthPx: 1080, heightPx: 1080 },
+  STORY: { id: 'STORY', label: 'Story', widthPx: 1080, heightPx: 1920 },
+  OPEN_GRAPH: { id: 'OPEN_GRAPH', label: 'Open Graph', widthPx: 1200, heightPx: 630 },
+  THUMBNAIL: { id: 'THUMBNAIL', label: 'Square Thumbnail', widthPx: 400, heightPx: 400 },
+};
+
+// Presets selected for new uploads
+export const DEFAULT_WEB_PRESETS: WebPreset[] = [WEB_PRESETS.WEB];
\ No newline at end of file
@@ -10,6 +10,14 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      optimizeDeps: {
+        // Pre-bundling breaks the codecs' relative .wasm URLs
+        exclude: ['@jsquash/avif', '@jsquash/jpeg'],
+      },
+      worker: {
+        // The export worker pulls in jsPDF, which code-splits; that needs ES module workers
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)